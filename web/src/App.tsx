@@ -1,7 +1,106 @@
 ﻿import React, { useEffect, useMemo, useRef, useState } from "react";
-import { defaultParameters, GalaxyParameters } from "@domain/parameters";
-import { findPreset, presets } from "@domain/presets";
-import { GalaxyRenderer } from "@gl/renderer";
+import {
+  ColorMode,
+  defaultParameters,
+  GalaxyParameters,
+  StarBuffer,
+  VertexLayout
+} from "@domain/parameters";
+import { vec3 } from "gl-matrix";
+import { CameraState, fovRange } from "@domain/camera";
+import {
+  CameraKeyframe,
+  CameraPath,
+  easings,
+  Easing,
+  emptyCameraPath,
+  insertKeyframe,
+  parseCameraPath,
+  pathDuration,
+  sampleCameraPath,
+  serializeCameraPath
+} from "@domain/cameraPath";
+import {
+  CatalogOptions,
+  CatalogPreview,
+  colorColumnKinds,
+  ColorColumnKind,
+  ColumnMapping,
+  defaultCatalogOptions,
+  guessDelimiter,
+  guessHeader,
+  guessMapping,
+  ImportedCatalog,
+  previewBinary,
+  previewCsv
+} from "@domain/catalog";
+import { CatalogImporter } from "@domain/catalogImporter";
+import { GalaxyExporter } from "@domain/galaxyExporter";
+import {
+  componentRange,
+  countStars,
+  galaxyExtent,
+  RigidRange,
+  rigidRanges,
+  StarRange
+} from "@domain/generator";
+import { defaultPoolSize, GeneratorPool, parallelSpeedup, PoolResult } from "@domain/generatorPool";
+import {
+  createEncounter,
+  encounterSubsteps,
+  defaultInteractionSettings,
+  Encounter,
+  EncounterFrame,
+  frameStars,
+  InteractionSettings,
+  interactionPresets
+} from "@domain/interaction";
+import { InteractionSimulator } from "@domain/interactionSimulator";
+import {
+  colorToHex,
+  formatCssGradient,
+  formatGradient,
+  GradientFormat,
+  gradientFormats,
+  hexToColor,
+  parseGradient
+} from "@domain/gradientFormats";
+import {
+  buildBlackbodyPalette,
+  buildPalette,
+  defaultGradient,
+  Gradient,
+  PaletteStop,
+  sampleGradient,
+  sortStops
+} from "@domain/palette";
+import { findPreset, findPresetPalette, presets } from "@domain/presets";
+import { maxSeed, randomSeed } from "@domain/random";
+import {
+  defaultRotation,
+  orbitalPeriod,
+  RotationCurve,
+  rotationCurves,
+  RotationSettings
+} from "@domain/rotation";
+import { companionTransform, GalaxyTransform, identityTransform, SceneGalaxy } from "@domain/scene";
+import {
+  defaultExportOptions,
+  ExportFormat,
+  exportFormats,
+  ExportOptions
+} from "@domain/starExport";
+import {
+  frameCount,
+  renderSequence,
+  SequenceFormat,
+  sequenceFormats,
+  SequenceSettings,
+  videoEncodingAvailable
+} from "@gl/frameSequence";
+import { CameraController } from "@gl/cameraController";
+import { defaultPostSettings, PostSettings, ToneMapping, toneMappings } from "@gl/postProcess";
+import { GalaxyRenderer, RenderStats } from "@gl/renderer";
 import "./styles.css";
 
 const nebulaThemeVars: Record<string, string> = {
@@ -17,9 +116,73 @@ const nebulaThemeVars: Record<string, string> = {
   "--glow": "rgba(255, 140, 90, 0.24)"
 };
 
-type WorkerResult =
-  | { type: "result"; id: number; count: number; buffer: ArrayBuffer }
-  | { type: "error"; id: number; message: string };
+/** Renderer id of the merged mesh that shows simulated encounter frames. */
+const interactionMeshId = "interaction";
+const playbackFps = 30;
+
+/** Bytes read up front to guess the catalog layout and fill the mapping dialog. */
+const catalogSampleBytes = 64 * 1024;
+/** "Fit to scene" scales the sampled rows to about this radius, a large galaxy disk. */
+const catalogFitRadius = 60;
+
+interface CatalogEntry {
+  id: string;
+  name: string;
+  count: number;
+  skipped: number;
+  extent: number;
+}
+
+interface CatalogDraft {
+  file: File;
+  sample: ArrayBuffer;
+  options: CatalogOptions;
+  preview: CatalogPreview;
+}
+
+const catalogDelimiters = [
+  { value: ",", label: "Comma" },
+  { value: "\t", label: "Tab" },
+  { value: ";", label: "Semicolon" },
+  { value: " ", label: "Whitespace" }
+];
+
+type CameraMode = "orbit" | "fly";
+
+const cameraModes: { value: CameraMode; label: string }[] = [
+  { value: "orbit", label: "Orbit around target" },
+  { value: "fly", label: "Free fly (WASD / QE)" }
+];
+
+/** Key codes that move the camera in fly mode: W/S forward, D/A right, E/Q up. */
+const flyKeys = new Set(["KeyW", "KeyS", "KeyA", "KeyD", "KeyQ", "KeyE"]);
+/** Speed multiplier while Shift is held in fly mode. */
+const flyBoost = 4;
+
+/** The stats overlay polls the renderer this often; polling never wakes the render loop. */
+const statsRefreshMs = 250;
+
+/** Gap between a new keyframe and the last one, in seconds. */
+const keyframeSpacing = 3;
+/** Playhead readout refresh while a path plays; the camera itself moves every frame. */
+const playheadRefreshMs = 100;
+
+const imageSizes = [
+  { label: "Full HD", width: 1920, height: 1080 },
+  { label: "4K UHD", width: 3840, height: 2160 },
+  { label: "8K UHD", width: 7680, height: 4320 },
+  { label: "8K square", width: 8192, height: 8192 },
+  { label: "16K", width: 15360, height: 8640 }
+];
+
+type RingKind = "nuclearRing" | "innerRing" | "outerRing" | "polarRing";
+
+const ringKinds: { value: RingKind; label: string }[] = [
+  { value: "nuclearRing", label: "Nuclear ring" },
+  { value: "innerRing", label: "Inner ring" },
+  { value: "outerRing", label: "Outer ring" },
+  { value: "polarRing", label: "Polar ring" }
+];
 
 const scrubMultiplier = (event: PointerEvent | React.PointerEvent) => {
   if (event.shiftKey) return 10;
@@ -30,10 +193,86 @@ const scrubMultiplier = (event: PointerEvent | React.PointerEvent) => {
 export default function App() {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const rendererRef = useRef<GalaxyRenderer | null>(null);
-  const workerRef = useRef<Worker | null>(null);
-  const currentRequestId = useRef(0);
-  const [params, setParams] = useState<GalaxyParameters>({ ...defaultParameters });
-  const [presetName, setPresetName] = useState<string>("Default");
+  const controllerRef = useRef<CameraController | null>(null);
+  const poolRef = useRef<GeneratorPool | null>(null);
+  const [galaxies, setGalaxies] = useState<SceneGalaxy[]>(() => [
+    {
+      id: "galaxy-1",
+      name: "Galaxy 1",
+      preset: "Default",
+      params: { ...defaultParameters },
+      palette: defaultGradient,
+      transform: identityTransform
+    }
+  ]);
+  const [selectedId, setSelectedId] = useState("galaxy-1");
+  const nextGalaxyNumber = useRef(2);
+  const [seedLocked, setSeedLocked] = useState(false);
+  const [poolSize, setPoolSize] = useState(defaultPoolSize);
+  const [shardReport, setShardReport] = useState<string | null>(null);
+  const [generationMs, setGenerationMs] = useState<number | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [vertexLayout, setVertexLayout] = useState<VertexLayout>("float32");
+  // Finished stars per galaxy (for vertex format re-uploads) and the params last dispatched.
+  const starsRef = useRef(
+    new Map<string, { stars: StarBuffer; dust: StarRange; rigid: RigidRange[] }>()
+  );
+  const dispatchedRef = useRef(new Map<string, GalaxyParameters>());
+  const inFlightRef = useRef(new Set<string>());
+  const simulatorRef = useRef<InteractionSimulator | null>(null);
+  const encounterRef = useRef<{
+    encounter: Encounter;
+    frames: EncounterFrame[];
+    sources: string[];
+  } | null>(null);
+  const [interaction, setInteraction] = useState<InteractionSettings>(defaultInteractionSettings);
+  const [interactionPreset, setInteractionPreset] = useState(interactionPresets[0].name);
+  const [partnerId, setPartnerId] = useState<string | null>(null);
+  const [framesReady, setFramesReady] = useState(0);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [simulating, setSimulating] = useState(false);
+  const [rotation, setRotation] = useState<RotationSettings>(defaultRotation);
+  const [rotationPlaying, setRotationPlaying] = useState(false);
+  const [postSettings, setPostSettings] = useState<PostSettings>(defaultPostSettings);
+  // Gradient each galaxy's palette texture was last built from
+  const uploadedPalettesRef = useRef(new Map<string, Gradient>());
+  const [paletteStop, setPaletteStop] = useState(0);
+  const [paletteFormat, setPaletteFormat] = useState<GradientFormat>("json");
+  const [ringKind, setRingKind] = useState<RingKind>("innerRing");
+  const importerRef = useRef<CatalogImporter | null>(null);
+  const catalogStarsRef = useRef(new Map<string, ImportedCatalog>());
+  const nextCatalogNumber = useRef(1);
+  const [catalogs, setCatalogs] = useState<CatalogEntry[]>([]);
+  const [catalogDraft, setCatalogDraft] = useState<CatalogDraft | null>(null);
+  const [importing, setImporting] = useState(false);
+  const exporterRef = useRef<GalaxyExporter | null>(null);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(defaultExportOptions);
+  const [exporting, setExporting] = useState(false);
+  const [imageSize, setImageSize] = useState({ width: 7680, height: 4320 });
+  const [renderingImage, setRenderingImage] = useState(false);
+  const [fov, setFov] = useState(60);
+  const [cameraPath, setCameraPath] = useState<CameraPath>(emptyCameraPath);
+  const [keyframeIndex, setKeyframeIndex] = useState(0);
+  const [pathPlaying, setPathPlaying] = useState(false);
+  const [pathTime, setPathTime] = useState(0);
+  const pathTimeRef = useRef(0);
+  const [sequence, setSequence] = useState<SequenceSettings>({
+    format: "png",
+    width: 1920,
+    height: 1080,
+    fps: 30,
+    duration: 10
+  });
+  const [sequenceRotates, setSequenceRotates] = useState(true);
+  const [sequenceProgress, setSequenceProgress] = useState<{
+    frame: number;
+    total: number;
+    started: number;
+  } | null>(null);
+  const sequenceAbortRef = useRef<AbortController | null>(null);
+  const [cameraMode, setCameraMode] = useState<CameraMode>("orbit");
+  const [flySpeed, setFlySpeed] = useState(30);
   const [status, setStatus] = useState("Ready");
   const [generating, setGenerating] = useState(false);
   const [rendererReady, setRendererReady] = useState(false);
@@ -44,6 +283,18 @@ export default function App() {
     null
   );
 
+  const selected = galaxies.find((g) => g.id === selectedId) ?? galaxies[0];
+  const params = selected.params;
+  const presetName = selected.preset;
+
+  const updateSelected = (update: (galaxy: SceneGalaxy) => SceneGalaxy) => {
+    setGalaxies((list) => list.map((g) => (g.id === selected.id ? update(g) : g)));
+  };
+
+  const setParams = (next: GalaxyParameters | ((prev: GalaxyParameters) => GalaxyParameters)) => {
+    updateSelected((g) => ({ ...g, params: typeof next === "function" ? next(g.params) : next }));
+  };
+
   // Apply theme tokens to CSS variables
   useEffect(() => {
     Object.entries(nebulaThemeVars).forEach(([key, value]) => {
@@ -61,6 +312,8 @@ export default function App() {
     if (!canvas) return;
     const renderer = new GalaxyRenderer(canvas);
     rendererRef.current = renderer;
+    const controller = new CameraController(renderer);
+    controllerRef.current = controller;
     try {
       renderer.init();
       renderer.resize();
@@ -76,22 +329,28 @@ export default function App() {
     window.addEventListener("resize", onResize);
     return () => {
       window.removeEventListener("resize", onResize);
+      controller.dispose();
       renderer.dispose();
     };
   }, []);
 
-  // Canvas interactions (orbit + zoom) with touch support
+  // Canvas interactions (orbit or look, pan, zoom) with touch support. Drags and the wheel go
+  // through the camera controller, which adds momentum and eases zoom toward the cursor.
   useEffect(() => {
     if (!rendererReady) return;
     const canvas = canvasRef.current;
     const renderer = rendererRef.current;
-    if (!canvas || !renderer) return;
+    const controller = controllerRef.current;
+    if (!canvas || !renderer || !controller) return;
     const activePointers = new Map<number, { x: number; y: number }>();
     let draggingId: number | null = null;
+    let panning = false;
     let lastX = 0;
     let lastY = 0;
     let lastPinchDistance: number | null = null;
-    const pinchScale = 0.04;
+    let lastMidpoint: { x: number; y: number } | null = null;
+    // Log-distance per wheel pixel: one 100 px notch zooms by about 16%
+    const wheelScale = 0.0015;
 
     const updatePointer = (e: PointerEvent) => {
       activePointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
@@ -103,15 +362,25 @@ export default function App() {
       return Math.hypot(a.x - b.x, a.y - b.y);
     };
 
+    const currentMidpoint = () => {
+      const [a, b] = Array.from(activePointers.values());
+      return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    };
+
     const onDown = (e: PointerEvent) => {
       updatePointer(e);
       if (activePointers.size === 1) {
         draggingId = e.pointerId;
+        // Right or middle mouse button pans instead of turning the camera
+        panning = e.button === 1 || e.button === 2;
+        controller.beginDrag(panning ? "pan" : cameraMode === "fly" ? "look" : "orbit");
         lastX = e.clientX;
         lastY = e.clientY;
       } else {
         draggingId = null;
         lastPinchDistance = currentPinchDistance();
+        lastMidpoint = currentMidpoint();
+        controller.beginDrag("pan");
       }
       canvas.setPointerCapture(e.pointerId);
     };
@@ -120,22 +389,36 @@ export default function App() {
       updatePointer(e);
 
       if (activePointers.size >= 2) {
+        // Pinching zooms toward the fingers; moving them together pans
         const dist = currentPinchDistance();
+        const midpoint = currentMidpoint();
         if (lastPinchDistance !== null && dist > 0) {
-          const delta = lastPinchDistance - dist;
-          renderer.zoom(delta * pinchScale);
+          renderer.zoomAt(lastPinchDistance / dist, midpoint.x, midpoint.y);
         }
         lastPinchDistance = dist;
+        if (lastMidpoint) {
+          controller.dragBy(midpoint.x - lastMidpoint.x, midpoint.y - lastMidpoint.y);
+        }
+        lastMidpoint = midpoint;
         return;
       }
 
       lastPinchDistance = null;
+      lastMidpoint = null;
       if (draggingId === e.pointerId) {
         const dx = e.clientX - lastX;
         const dy = e.clientY - lastY;
         lastX = e.clientX;
         lastY = e.clientY;
-        renderer.orbit(dx * 0.005, -dy * 0.005);
+        if (panning) {
+          controller.dragBy(dx, dy);
+          return;
+        }
+        if (cameraMode === "fly") {
+          controller.dragBy(dx * 0.003, dy * 0.003);
+        } else {
+          controller.dragBy(dx * 0.005, -dy * 0.005);
+        }
         if (tiltEnabled) {
           tiltOrigin.current = null;
         }
@@ -145,9 +428,12 @@ export default function App() {
       activePointers.delete(e.pointerId);
       if (draggingId === e.pointerId) {
         draggingId = null;
+        controller.endDrag();
       }
       if (activePointers.size < 2) {
+        if (lastMidpoint) controller.endDrag();
         lastPinchDistance = null;
+        lastMidpoint = null;
       }
       try {
         canvas.releasePointerCapture(e.pointerId);
@@ -157,63 +443,312 @@ export default function App() {
     };
     const onWheel = (e: WheelEvent) => {
       e.preventDefault();
-      renderer.zoom(-e.deltaY * 0.05);
+      // Line-mode wheels (Firefox) report lines rather than pixels
+      const pixels = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 33 : e.deltaY;
+      controller.zoomBy(pixels * wheelScale, e.clientX, e.clientY);
     };
+    const onContextMenu = (e: MouseEvent) => e.preventDefault();
     canvas.addEventListener("pointerdown", onDown);
     canvas.addEventListener("pointermove", onMove);
     canvas.addEventListener("pointerup", onUp);
     canvas.addEventListener("pointercancel", onUp);
     canvas.addEventListener("wheel", onWheel, { passive: false });
+    canvas.addEventListener("contextmenu", onContextMenu);
     return () => {
       canvas.removeEventListener("pointerdown", onDown);
       canvas.removeEventListener("pointermove", onMove);
       canvas.removeEventListener("pointerup", onUp);
       canvas.removeEventListener("pointercancel", onUp);
       canvas.removeEventListener("wheel", onWheel);
+      canvas.removeEventListener("contextmenu", onContextMenu);
     };
-  }, [rendererReady, tiltEnabled]);
+  }, [rendererReady, tiltEnabled, cameraMode]);
 
-  // Worker setup
+  // Fly mode: WASD/QE set the camera's velocity while held, Shift for a boost; the controller
+  // eases into and out of it. Keys typed into form fields are left alone.
   useEffect(() => {
-    const worker = new Worker(new URL("./domain/generator.worker.ts", import.meta.url), {
-      type: "module"
-    });
-    workerRef.current = worker;
-    worker.onmessage = (event: MessageEvent<WorkerResult>) => {
-      const msg = event.data;
-      if (msg.type === "result") {
-        if (msg.id !== currentRequestId.current) return;
-        const data = new Float32Array(msg.buffer);
-        rendererRef.current?.setStars({ data, count: msg.count });
-        setStatus(`Stars: ${msg.count.toLocaleString()}`);
-        setGenerating(false);
-      } else if (msg.type === "error") {
-        if (msg.id !== currentRequestId.current) return;
-        setStatus(`Generation failed: ${msg.message}`);
-        setGenerating(false);
+    const controller = controllerRef.current;
+    if (!rendererReady || !controller || cameraMode !== "fly") return;
+    const held = new Set<string>();
+    let boost = false;
+
+    const axis = (plus: string, minus: string) =>
+      (held.has(plus) ? 1 : 0) - (held.has(minus) ? 1 : 0);
+    const update = () => {
+      const speed = flySpeed * (boost ? flyBoost : 1);
+      controller.setFlyVelocity(
+        axis("KeyW", "KeyS") * speed,
+        axis("KeyD", "KeyA") * speed,
+        axis("KeyE", "KeyQ") * speed
+      );
+    };
+    const isFormField = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (target.isContentEditable || ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName));
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      boost = e.shiftKey;
+      if (flyKeys.has(e.code) && !isFormField(e.target) && !e.ctrlKey && !e.metaKey) {
+        e.preventDefault();
+        held.add(e.code);
       }
+      if (held.size > 0) update();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      boost = e.shiftKey;
+      held.delete(e.code);
+      update();
+    };
+    const onBlur = () => {
+      held.clear();
+      update();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", onBlur);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", onBlur);
+      controller.setFlyVelocity(0, 0, 0);
+    };
+  }, [rendererReady, cameraMode, flySpeed]);
+
+  // Zoom limits follow the scene: each galaxy's outermost component where it sits, plus
+  // imported catalogs
+  useEffect(() => {
+    if (!rendererReady) return;
+    let radius = 0;
+    for (const galaxy of galaxies) {
+      const { position, scale } = galaxy.transform;
+      radius = Math.max(radius, Math.hypot(...position) + galaxyExtent(galaxy.params) * scale);
+    }
+    for (const catalog of catalogs) radius = Math.max(radius, catalog.extent);
+    rendererRef.current?.setSceneRadius(radius);
+  }, [rendererReady, galaxies, catalogs]);
+
+  // Palette edits re-upload only the galaxies whose stops changed
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!rendererReady || !renderer) return;
+    const uploaded = uploadedPalettesRef.current;
+    for (const galaxy of galaxies) {
+      if (uploaded.get(galaxy.id) === galaxy.palette) continue;
+      uploaded.set(galaxy.id, galaxy.palette);
+      renderer.setPalette(galaxy.id, buildPalette(galaxy.palette));
+    }
+    for (const id of Array.from(uploaded.keys())) {
+      if (!galaxies.some((g) => g.id === id)) uploaded.delete(id);
+    }
+  }, [rendererReady, galaxies]);
+
+  // Worker pool setup
+  useEffect(() => {
+    const pool = new GeneratorPool(defaultPoolSize());
+    poolRef.current = pool;
+    return () => {
+      pool.dispose();
+      poolRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    poolRef.current?.resize(poolSize);
+  }, [poolSize]);
+
+  useEffect(() => {
+    const simulator = new InteractionSimulator();
+    simulatorRef.current = simulator;
+    return () => {
+      simulator.dispose();
+      simulatorRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const exporter = new GalaxyExporter();
+    exporterRef.current = exporter;
+    return () => {
+      exporter.dispose();
+      exporterRef.current = null;
     };
+  }, []);
+
+  useEffect(() => {
+    const importer = new CatalogImporter();
+    importerRef.current = importer;
     return () => {
-      worker.postMessage({ type: "terminate" });
-      worker.terminate();
-      workerRef.current = null;
+      importer.dispose();
+      importerRef.current = null;
     };
   }, []);
 
-  // Trigger generation when params change (debounced)
+  // Re-upload in the new vertex layout; galaxies still streaming are simply regenerated.
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!rendererReady || !renderer || renderer.getVertexLayout() === vertexLayout) return;
+    renderer.setVertexLayout(vertexLayout);
+    let restart = false;
+    for (const id of dispatchedRef.current.keys()) {
+      const done = starsRef.current.get(id);
+      if (done) {
+        renderer.setStars(id, done.stars, done.dust, done.rigid);
+      } else {
+        dispatchedRef.current.delete(id);
+        restart = true;
+      }
+    }
+    for (const [id, catalog] of catalogStarsRef.current) renderer.setStars(id, catalog.stars);
+    if (restart) setGalaxies((list) => [...list]);
+  }, [rendererReady, vertexLayout]);
+
+  // Sync the scene: transforms apply at once, removed galaxies are dropped, and galaxies
+  // whose params changed are regenerated (debounced).
   useEffect(() => {
-    if (!workerRef.current) return;
+    const renderer = rendererRef.current;
+    for (const galaxy of galaxies) renderer?.setGalaxyTransform(galaxy.id, galaxy.transform);
+    for (const id of Array.from(dispatchedRef.current.keys())) {
+      if (galaxies.some((g) => g.id === id)) continue;
+      dispatchedRef.current.delete(id);
+      starsRef.current.delete(id);
+      inFlightRef.current.delete(id);
+      poolRef.current?.cancel(id);
+      renderer?.removeGalaxy(id);
+    }
+    setGenerating(inFlightRef.current.size > 0);
+
+    const stale = galaxies.filter((g) => dispatchedRef.current.get(g.id) !== g.params);
+    if (!poolRef.current || stale.length === 0) return;
+    const labelled = galaxies.length > 1;
     const timeout = setTimeout(() => {
-      const worker = workerRef.current;
-      if (!worker) return;
-      const requestId = currentRequestId.current + 1;
-      currentRequestId.current = requestId;
-      setGenerating(true);
-      setStatus("Generating...");
-      worker.postMessage({ type: "generate", id: requestId, params });
+      stale.forEach((galaxy) => generateGalaxy(galaxy, labelled));
     }, 180);
     return () => clearTimeout(timeout);
-  }, [params]);
+  }, [galaxies]);
+
+  const generateGalaxy = ({ id, name, params }: SceneGalaxy, labelled: boolean) => {
+    const pool = poolRef.current;
+    if (!pool) return;
+    const prefix = labelled ? `${name}: ` : "";
+    const isCurrent = () => dispatchedRef.current.get(id) === params;
+    const settle = () => {
+      inFlightRef.current.delete(id);
+      setGenerating(inFlightRef.current.size > 0);
+    };
+    const started = performance.now();
+    let received = 0;
+    const dust = componentRange(params, "dust");
+    const rigid = rigidRanges(params);
+    dispatchedRef.current.set(id, params);
+    starsRef.current.delete(id);
+    inFlightRef.current.add(id);
+    rendererRef.current?.setColorMode(id, params.colorMode);
+    rendererRef.current?.beginStars(id, countStars(params), dust, rigid);
+    setGenerating(true);
+    setStatus(`${prefix}Generating 0%`);
+    pool
+      .generate(id, params, (chunk) => {
+        if (!isCurrent()) return;
+        rendererRef.current?.appendStars(id, chunk);
+        received += chunk.count;
+        const progress = received / Math.max(1, chunk.total);
+        setStatus(prefix + formatProgress(progress, performance.now() - started));
+      })
+      .then((result) => {
+        if (!isCurrent()) return;
+        starsRef.current.set(id, { stars: result.stars, dust, rigid });
+        setStatus(
+          `${prefix}Stars: ${result.stars.count.toLocaleString()} ` +
+            `(${(result.elapsedMs / 1000).toFixed(2)}s)`
+        );
+        setShardReport(formatShardReport(result, pool.size));
+        setGenerationMs(result.elapsedMs);
+        settle();
+      })
+      .catch((error: unknown) => {
+        if (error instanceof DOMException && error.name === "AbortError") return;
+        if (!isCurrent()) return;
+        const message = error instanceof Error ? error.message : String(error);
+        setStatus(`${prefix}Generation failed: ${message}`);
+        settle();
+      });
+  };
+
+  // Show the current encounter frame (also after a vertex format switch cleared the GPU data)
+  const frameAvailable = frameIndex < framesReady;
+  useEffect(() => {
+    const current = encounterRef.current;
+    const renderer = rendererRef.current;
+    if (!rendererReady || !renderer || !current || !frameAvailable) return;
+    renderer.setColorMode(interactionMeshId, current.encounter.colorMode);
+    renderer.setGalaxyRotates(interactionMeshId, false);
+    renderer.setStars(
+      interactionMeshId,
+      frameStars(current.encounter, current.frames[frameIndex]),
+      current.encounter.absorbing
+    );
+  }, [rendererReady, frameIndex, frameAvailable, vertexLayout]);
+
+  useEffect(() => {
+    if (!rendererReady) return;
+    rendererRef.current?.setRotation(rotation);
+  }, [rendererReady, rotation]);
+
+  useEffect(() => {
+    if (!rendererReady) return;
+    rendererRef.current?.setRotationPlaying(rotationPlaying);
+  }, [rendererReady, rotationPlaying]);
+
+  useEffect(() => {
+    if (!rendererReady) return;
+    rendererRef.current?.setPostSettings(postSettings);
+  }, [rendererReady, postSettings]);
+
+  // Flythrough: the camera follows the path every frame, the readout catches up periodically.
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!pathPlaying || !renderer) return;
+    const duration = pathDuration(cameraPath);
+    if (cameraPath.keyframes.length < 2 || duration <= 0) {
+      setPathPlaying(false);
+      return;
+    }
+    if (pathTimeRef.current >= duration) pathTimeRef.current = 0;
+    controllerRef.current?.stop();
+    let shown = 0;
+    const stop = renderer.animate((dt, now) => {
+      let time = pathTimeRef.current + dt;
+      const finished = time >= duration && !cameraPath.loop;
+      if (finished) time = duration;
+      else if (time >= duration) time %= duration;
+      pathTimeRef.current = time;
+      renderer.setCameraState(sampleCameraPath(cameraPath, time)!);
+      if (finished) {
+        setPathTime(time);
+        setPathPlaying(false);
+        return false;
+      }
+      if (now - shown > playheadRefreshMs) {
+        shown = now;
+        setPathTime(time);
+      }
+      return true;
+    });
+    return () => {
+      stop();
+      setPathTime(pathTimeRef.current);
+      setFov(renderer.getCameraState().fov);
+    };
+  }, [pathPlaying, cameraPath]);
+
+  // Playback loops over the frames simulated so far
+  useEffect(() => {
+    if (!playing || framesReady === 0) return;
+    const timer = setInterval(() => {
+      setFrameIndex((index) => (index + 1 < framesReady ? index + 1 : simulating ? index : 0));
+    }, 1000 / playbackFps);
+    return () => clearInterval(timer);
+  }, [playing, framesReady, simulating]);
 
   useEffect(() => {
     if (!rendererReady || !tiltEnabled) return;
@@ -231,6 +766,7 @@ export default function App() {
       const origin = tiltOrigin.current;
       const yaw = origin.yaw + degToRad((gamma - origin.gamma) * 1.15);
       const pitch = origin.pitch + degToRad((beta - origin.beta) * 0.85);
+      controllerRef.current?.stop();
       renderer.setAngles(yaw, pitch);
     };
 
@@ -244,20 +780,547 @@ export default function App() {
     setParams((prev) => ({ ...prev, [key]: value }));
   };
 
+  // A locked seed survives preset loads and refreshes; otherwise those reroll it.
+  const applyParams = (next: GalaxyParameters, preset = presetName, palette?: Gradient) => {
+    const seed = seedLocked ? params.seed : randomSeed();
+    updateSelected((g) => ({
+      ...g,
+      preset,
+      params: { ...next, seed },
+      palette: palette ?? g.palette
+    }));
+  };
+
   const loadPreset = (name: string) => {
     const preset = findPreset(name);
     if (!preset) return;
-    setPresetName(name);
-    setParams(preset);
+    applyParams(preset, name, findPresetPalette(name));
+    setPaletteStop(0);
   };
 
   const resetDefault = () => {
-    setPresetName("Default");
-    setParams({ ...defaultParameters });
+    applyParams({ ...defaultParameters }, "Default", defaultGradient);
+    setPaletteStop(0);
+  };
+
+  const palette = selected.palette;
+  const stopIndex = Math.min(paletteStop, palette.length - 1);
+  const activeStop = palette[stopIndex];
+
+  const updatePalette = (update: (stops: Gradient) => Gradient) => {
+    updateSelected((g) => ({ ...g, palette: update(g.palette) }));
+  };
+
+  const updateStop = (index: number, patch: Partial<PaletteStop>) => {
+    updatePalette((stops) => stops.map((stop, i) => (i === index ? { ...stop, ...patch } : stop)));
+  };
+
+  // New stops take the color already at their position, so adding one changes nothing yet
+  const addStop = (position: number) => {
+    const color = sampleGradient(sortStops(palette), position);
+    updatePalette((stops) => [...stops, { position, color }]);
+    setPaletteStop(palette.length);
+  };
+
+  const removeStop = () => {
+    if (palette.length < 3) return;
+    updatePalette((stops) => stops.filter((_, i) => i !== stopIndex));
+    setPaletteStop(Math.max(0, stopIndex - 1));
+  };
+
+  // Reversed in order too, so coincident stops (hard edges) keep their sides
+  const reversePalette = () => {
+    updatePalette((stops) =>
+      stops.map((stop) => ({ ...stop, position: 1 - stop.position })).reverse()
+    );
+    setPaletteStop(palette.length - 1 - stopIndex);
+  };
+
+  const exportPalette = () => {
+    const format = gradientFormats.find((f) => f.value === paletteFormat) ?? gradientFormats[0];
+    const name = `${selected.name} palette`;
+    const text = formatGradient(paletteFormat, { name, gradient: palette });
+    downloadBlob(new Blob([text], { type: "text/plain" }), `${slugify(name)}.${format.extension}`);
+  };
+
+  const importPalette = (file: File) => {
+    file
+      .text()
+      .then((text) => {
+        const imported = parseGradient(text, file.name.replace(/\.[^.]+$/, ""));
+        updatePalette(() => imported.gradient);
+        setPaletteStop(0);
+        setStatus(`${imported.name}: ${imported.gradient.length} palette stops`);
+      })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        setStatus(`${file.name}: Could not load palette: ${message}`);
+      });
+  };
+
+  const updateTransform = (key: keyof Omit<GalaxyTransform, "position">, value: number) => {
+    updateSelected((g) => ({ ...g, transform: { ...g.transform, [key]: value } }));
+  };
+
+  const updatePosition = (axis: 0 | 1 | 2, value: number) => {
+    updateSelected((g) => {
+      const position: GalaxyTransform["position"] = [...g.transform.position];
+      position[axis] = value;
+      return { ...g, transform: { ...g.transform, position } };
+    });
+  };
+
+  const addGalaxy = () => {
+    const number = nextGalaxyNumber.current++;
+    const galaxy: SceneGalaxy = {
+      id: `galaxy-${number}`,
+      name: `Galaxy ${number}`,
+      preset: "Default",
+      params: { ...defaultParameters, seed: randomSeed() },
+      palette: defaultGradient,
+      transform: companionTransform(galaxies.length)
+    };
+    setGalaxies((list) => [...list, galaxy]);
+    setSelectedId(galaxy.id);
+  };
+
+  const removeSelectedGalaxy = () => {
+    if (galaxies.length < 2) return;
+    const index = galaxies.findIndex((g) => g.id === selected.id);
+    const remaining = galaxies.filter((g) => g.id !== selected.id);
+    setGalaxies(remaining);
+    setSelectedId(remaining[Math.min(index, remaining.length - 1)].id);
   };
 
-  const handleZoom = (delta: number) => {
-    rendererRef.current?.zoom(delta);
+  const partner =
+    galaxies.find((g) => g.id === partnerId && g.id !== selected.id) ??
+    galaxies.find((g) => g.id !== selected.id);
+
+  const updateInteraction = (key: keyof InteractionSettings, value: number) => {
+    setInteraction((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const loadInteractionPreset = (name: string) => {
+    const preset = interactionPresets.find((p) => p.name === name);
+    if (!preset) return;
+    setInteractionPreset(name);
+    setInteraction(preset.settings);
+  };
+
+  const showSources = (visible: boolean) => {
+    const current = encounterRef.current;
+    if (!current) return;
+    current.sources.forEach((id) => rendererRef.current?.setGalaxyVisible(id, visible));
+  };
+
+  const exitInteraction = () => {
+    simulatorRef.current?.cancel();
+    showSources(true);
+    rendererRef.current?.removeGalaxy(interactionMeshId);
+    encounterRef.current = null;
+    setFramesReady(0);
+    setFrameIndex(0);
+    setPlaying(false);
+    setSimulating(false);
+  };
+
+  // The selected galaxy is the primary; both must have finished generating.
+  const simulateInteraction = () => {
+    const simulator = simulatorRef.current;
+    const primaryStars = starsRef.current.get(selected.id);
+    const partnerStars = partner && starsRef.current.get(partner.id);
+    if (!simulator || !partner || !primaryStars || !partnerStars) {
+      setStatus("Both galaxies need to finish generating first");
+      return;
+    }
+    exitInteraction();
+    const encounter = createEncounter(
+      { params: selected.params, transform: selected.transform, ...primaryStars },
+      { params: partner.params, transform: partner.transform, ...partnerStars },
+      interaction
+    );
+    const frames: EncounterFrame[] = [];
+    const current = { encounter, frames, sources: [selected.id, partner.id] };
+    const accuracy = encounterSubsteps(encounter).limited
+      ? " (time step capped; orbits near the lighter galaxy's center are approximate)"
+      : "";
+    encounterRef.current = current;
+    rendererRef.current?.setPalette(interactionMeshId, buildPalette(selected.palette));
+    showSources(false);
+    setSimulating(true);
+    setStatus(`Simulating 0%${accuracy}`);
+    simulator
+      .simulate(encounter, (frame, total) => {
+        frames.push(frame);
+        setFramesReady(frames.length);
+        setStatus(`Simulating ${Math.floor((frames.length / total) * 100)}%${accuracy}`);
+      })
+      .then((result) => {
+        if (encounterRef.current !== current) return;
+        const particles = encounter.stars.count.toLocaleString();
+        setStatus(
+          `Encounter: ${result.frames.length} frames of ${particles} particles ` +
+            `(${(result.elapsedMs / 1000).toFixed(2)}s)${accuracy}`
+        );
+        setSimulating(false);
+      })
+      .catch((error: unknown) => {
+        if (error instanceof DOMException && error.name === "AbortError") return;
+        if (encounterRef.current !== current) return;
+        const message = error instanceof Error ? error.message : String(error);
+        setStatus(`Simulation failed: ${message}`);
+        setSimulating(false);
+      });
+  };
+
+  const openCatalog = async (file: File) => {
+    try {
+      const sample = await file.slice(0, catalogSampleBytes).arrayBuffer();
+      const format = /\.(bin|dat|raw|f32|f64)$/i.test(file.name) ? "binary" : "csv";
+      let options: CatalogOptions = { ...defaultCatalogOptions, format };
+      if (format === "csv") {
+        const text = new TextDecoder().decode(sample);
+        const delimiter = guessDelimiter(text);
+        options = { ...options, delimiter, hasHeader: guessHeader(text, delimiter) };
+      }
+      const preview = catalogPreview(file, sample, options);
+      options = { ...options, mapping: guessMapping(preview.columns) };
+      setCatalogDraft({ file, sample, options, preview });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setStatus(`${file.name}: Could not open catalog: ${message}`);
+    }
+  };
+
+  // Layout changes alter the columns, so the mapping is guessed again.
+  const updateCatalogLayout = (patch: Partial<CatalogOptions>) => {
+    setCatalogDraft((draft) => {
+      if (!draft) return draft;
+      const options = { ...draft.options, ...patch };
+      const preview = catalogPreview(draft.file, draft.sample, options);
+      return { ...draft, preview, options: { ...options, mapping: guessMapping(preview.columns) } };
+    });
+  };
+
+  const updateCatalogOptions = (patch: Partial<CatalogOptions>) => {
+    setCatalogDraft((draft) => draft && { ...draft, options: { ...draft.options, ...patch } });
+  };
+
+  const importCatalog = () => {
+    const importer = importerRef.current;
+    const draft = catalogDraft;
+    if (!importer || !draft) return;
+    setCatalogDraft(null);
+    setImporting(true);
+    const name = draft.file.name;
+    setStatus(`${name}: Importing 0%`);
+    importer
+      .load(draft.file, draft.options, (fraction) => {
+        setStatus(`${name}: Importing ${Math.floor(fraction * 100)}%`);
+      })
+      .then((catalog) => {
+        const id = `catalog-${nextCatalogNumber.current++}`;
+        const renderer = rendererRef.current;
+        catalogStarsRef.current.set(id, catalog);
+        renderer?.setColorMode(id, catalog.colorMode);
+        renderer?.setGalaxyRotates(id, false);
+        renderer?.setStars(id, catalog.stars);
+        const { count } = catalog.stars;
+        setCatalogs((list) => [
+          ...list,
+          { id, name, count, skipped: catalog.skipped, extent: catalog.extent }
+        ]);
+        const skipped = catalog.skipped > 0 ? `, ${catalog.skipped.toLocaleString()} skipped` : "";
+        setStatus(`${name}: ${count.toLocaleString()} stars${skipped}`);
+        setImporting(false);
+      })
+      .catch((error: unknown) => {
+        setImporting(false);
+        if (error instanceof DOMException && error.name === "AbortError") {
+          setStatus(`${name}: Import cancelled`);
+          return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        setStatus(`${name}: Import failed: ${message}`);
+      });
+  };
+
+  const removeCatalog = (id: string) => {
+    catalogStarsRef.current.delete(id);
+    rendererRef.current?.removeGalaxy(id);
+    setCatalogs((list) => list.filter((c) => c.id !== id));
+  };
+
+  // Colors go through the palette the selected galaxy is drawn with.
+  const exportSelected = () => {
+    const exporter = exporterRef.current;
+    if (!exporter) return;
+    const { name, params: source } = selected;
+    const format = exportFormats.find((f) => f.value === exportOptions.format) ?? exportFormats[0];
+    const palette =
+      source.colorMode === "population" ? buildBlackbodyPalette() : buildPalette(selected.palette);
+    setExporting(true);
+    setStatus(`${name}: Exporting 0%`);
+    exporter
+      .exportGalaxy(source, exportOptions, palette, name, (fraction) => {
+        setStatus(`${name}: Exporting ${Math.floor(fraction * 100)}%`);
+      })
+      .then((result) => {
+        const file = `${slugify(name)}-${source.seed}.${format.extension}`;
+        downloadBlob(result.blob, file);
+        const megabytes = (result.blob.size / (1024 * 1024)).toFixed(1);
+        setStatus(
+          `${name}: Exported ${result.count.toLocaleString()} particles, ${megabytes} MB ` +
+            `(${(result.elapsedMs / 1000).toFixed(2)}s)`
+        );
+        setExporting(false);
+      })
+      .catch((error: unknown) => {
+        setExporting(false);
+        if (error instanceof DOMException && error.name === "AbortError") {
+          setStatus(`${name}: Export cancelled`);
+          return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        setStatus(`${name}: Export failed: ${message}`);
+      });
+  };
+
+  const renderImage = () => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    const { width, height } = imageSize;
+    setRenderingImage(true);
+    setStatus(`Rendering ${width} x ${height}`);
+    // Let the status paint before the GPU work blocks the page
+    requestAnimationFrame(() => {
+      const started = performance.now();
+      renderer
+        .renderImage(width, height)
+        .then((blob) => {
+          downloadBlob(blob, `nebula-${width}x${height}.png`);
+          setStatus(
+            `Rendered ${width} x ${height} (${((performance.now() - started) / 1000).toFixed(2)}s)`
+          );
+        })
+        .catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : String(error);
+          setStatus(`Render failed: ${message}`);
+        })
+        .finally(() => setRenderingImage(false));
+    });
+  };
+
+  const updateFov = (value: number) => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    setFov(value);
+    renderer.setCameraState({ ...renderer.getCameraState(), fov: value });
+  };
+
+  /** Moves to a saved view, easing there unless `immediate` (scrubbing the playhead). */
+  const applyCamera = (state: CameraState, immediate = false) => {
+    const controller = controllerRef.current;
+    if (immediate || !controller) {
+      controller?.stop();
+      rendererRef.current?.setCameraState(state);
+    } else {
+      controller.transitionTo(state);
+    }
+    setFov(state.fov);
+  };
+
+  const addKeyframe = () => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    const time = cameraPath.keyframes.length > 0 ? pathDuration(cameraPath) + keyframeSpacing : 0;
+    const camera = renderer.getCameraState();
+    const next = insertKeyframe(cameraPath, { time, camera, easing: "easeInOut" });
+    setCameraPath(next);
+    setKeyframeIndex(next.keyframes.length - 1);
+  };
+
+  const selectedKeyframe = cameraPath.keyframes[keyframeIndex];
+
+  const updateKeyframe = (patch: Partial<CameraKeyframe>) => {
+    if (!selectedKeyframe) return;
+    const keyframe = { ...selectedKeyframe, ...patch };
+    const others = cameraPath.keyframes.filter((k) => k !== selectedKeyframe);
+    const next = insertKeyframe({ ...cameraPath, keyframes: others }, keyframe);
+    setCameraPath(next);
+    setKeyframeIndex(next.keyframes.indexOf(keyframe));
+  };
+
+  const removeKeyframe = () => {
+    const keyframes = cameraPath.keyframes.filter((_, i) => i !== keyframeIndex);
+    setCameraPath({ ...cameraPath, keyframes });
+    setKeyframeIndex(Math.max(0, Math.min(keyframeIndex, keyframes.length - 1)));
+  };
+
+  const seekPath = (time: number) => {
+    pathTimeRef.current = time;
+    setPathTime(time);
+    const state = sampleCameraPath(cameraPath, time);
+    if (state) applyCamera(state, true);
+  };
+
+  const savePath = () => {
+    const blob = new Blob([serializeCameraPath(cameraPath)], { type: "application/json" });
+    downloadBlob(blob, "camera-path.json");
+  };
+
+  const loadPath = (file: File) => {
+    file
+      .text()
+      .then((text) => {
+        const path = parseCameraPath(text);
+        setPathPlaying(false);
+        setCameraPath(path);
+        setKeyframeIndex(0);
+        pathTimeRef.current = 0;
+        setPathTime(0);
+        if (path.keyframes.length > 0) applyCamera(path.keyframes[0].camera);
+        setStatus(`${file.name}: ${path.keyframes.length} keyframes`);
+      })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        setStatus(`${file.name}: Could not load camera path: ${message}`);
+      });
+  };
+
+  const updateSequence = (patch: Partial<SequenceSettings>) => {
+    setSequence((prev) => ({ ...prev, ...patch }));
+  };
+
+  /**
+   * Offline render of whatever is animated: the camera path, the galaxies' rotation and a
+   * simulated encounter, all driven from the sequence clock instead of wall time. The scene is
+   * put back the way it was afterwards.
+   */
+  const renderAnimation = () => {
+    const renderer = rendererRef.current;
+    if (!renderer || sequenceProgress) return;
+    // Video encoders want even frame sizes
+    const settings =
+      sequence.format === "webm"
+        ? { ...sequence, width: sequence.width & ~1, height: sequence.height & ~1 }
+        : sequence;
+    const savedCamera = renderer.getCameraState();
+    const savedRotation = renderer.getRotationTime();
+    const encounter = encounterRef.current;
+    const path = cameraPath;
+    controllerRef.current?.stop();
+    setPathPlaying(false);
+    renderer.setRotationPlaying(false);
+
+    const applyFrame = (time: number) => {
+      const camera = sampleCameraPath(path, time);
+      if (camera) renderer.setCameraState(camera);
+      if (sequenceRotates) renderer.setRotationTime(savedRotation + time * rotation.speed);
+      if (encounter && encounter.frames.length > 0) {
+        const index = Math.min(Math.floor(time * playbackFps), encounter.frames.length - 1);
+        renderer.setStars(
+          interactionMeshId,
+          frameStars(encounter.encounter, encounter.frames[index]),
+          encounter.encounter.absorbing
+        );
+      }
+    };
+
+    const restore = () => {
+      renderer.setCameraState(savedCamera);
+      renderer.setRotationTime(savedRotation);
+      renderer.setRotationPlaying(rotationPlaying);
+      if (encounter && frameIndex < encounter.frames.length) {
+        renderer.setStars(
+          interactionMeshId,
+          frameStars(encounter.encounter, encounter.frames[frameIndex]),
+          encounter.encounter.absorbing
+        );
+      }
+      setSequenceProgress(null);
+      sequenceAbortRef.current = null;
+    };
+
+    const controller = new AbortController();
+    sequenceAbortRef.current = controller;
+    const started = performance.now();
+    setSequenceProgress({ frame: 0, total: frameCount(settings), started });
+    renderSequence(
+      renderer,
+      settings,
+      applyFrame,
+      (frame, total) => setSequenceProgress({ frame, total, started }),
+      controller.signal
+    )
+      .then((blob) => {
+        restore();
+        const format = sequenceFormats.find((f) => f.value === settings.format)!;
+        const { width, height, fps } = settings;
+        downloadBlob(blob, `nebula-${width}x${height}-${fps}fps.${format.extension}`);
+        const seconds = ((performance.now() - started) / 1000).toFixed(1);
+        setStatus(`Rendered ${frameCount(settings)} frames (${seconds}s)`);
+      })
+      .catch((error: unknown) => {
+        restore();
+        if (error instanceof DOMException && error.name === "AbortError") {
+          setStatus("Animation render cancelled");
+          return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        setStatus(`Animation render failed: ${message}`);
+      });
+  };
+
+  const stepFrame = (delta: number) => {
+    setPlaying(false);
+    setFrameIndex((index) => clampNumber(index + delta, 0, Math.max(0, framesReady - 1)));
+  };
+
+  const updateRotation = (key: keyof Omit<RotationSettings, "curve">, value: number) => {
+    setRotation((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const updatePost = (key: keyof Omit<PostSettings, "toneMapping">, value: number) => {
+    setPostSettings((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const edgePeriod = orbitalPeriod(rotation, params.diskRadius);
+
+  const rerollSeed = () => {
+    updateParam("seed", randomSeed());
+  };
+
+  /** Zoom buttons ease toward the middle of the view by a factor of e^amount. */
+  const handleZoom = (amount: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    controllerRef.current?.zoomBy(amount, rect.left + rect.width / 2, rect.top + rect.height / 2);
+  };
+
+  /** Every mesh's CPU-side stars, for picking; hidden meshes are skipped by the renderer. */
+  const pickSources = () => {
+    const sources = Array.from(starsRef.current, ([id, { stars }]) => ({ id, stars }));
+    for (const [id, catalog] of catalogStarsRef.current) sources.push({ id, stars: catalog.stars });
+    const encounter = encounterRef.current;
+    if (encounter && frameIndex < encounter.frames.length) {
+      sources.push({
+        id: interactionMeshId,
+        stars: frameStars(encounter.encounter, encounter.frames[frameIndex])
+      });
+    }
+    return sources;
+  };
+
+  const focusAtPointer = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    const point = renderer.pickStar(e.clientX, e.clientY, pickSources());
+    if (!point) {
+      setStatus("Nothing under the cursor to focus on");
+      return;
+    }
+    controllerRef.current?.focusOn(point);
   };
 
   const enableTilt = async () => {
@@ -313,19 +1376,24 @@ export default function App() {
         <section className="panel">
           <div className="panel-heading">Viewport</div>
           <div className="canvas-shell">
-            <canvas ref={canvasRef} className="viewport" />
+            <canvas ref={canvasRef} className="viewport" onDoubleClick={focusAtPointer} />
+            {showStats && rendererReady && rendererRef.current && (
+              <StatsOverlay renderer={rendererRef.current} generationMs={generationMs} />
+            )}
             <div className="zoom-controls" aria-label="Zoom controls">
-              <button className="zoom-btn" onClick={() => handleZoom(-8)} aria-label="Zoom in">
+              <button className="zoom-btn" onClick={() => handleZoom(-0.25)} aria-label="Zoom in">
                 +
               </button>
-              <button className="zoom-btn" onClick={() => handleZoom(8)} aria-label="Zoom out">
+              <button className="zoom-btn" onClick={() => handleZoom(0.25)} aria-label="Zoom out">
                 -
               </button>
             </div>
             <div className="hint">
               {tiltEnabled
                 ? "Tilt or drag to orbit | Pinch or + / - to zoom | Tap Re-center if drift appears"
-                : "Drag to orbit | Scroll or pinch to zoom | Tap + / - if needed"}
+                : cameraMode === "fly"
+                ? "Drag to look | WASD / QE to fly, Shift for speed | Right-drag to pan"
+                : "Drag to orbit | Right-drag or two fingers to pan | Double-click to focus"}
             </div>
           </div>
           <div className="motion-row">
@@ -390,7 +1458,7 @@ export default function App() {
                   <button className="btn secondary" onClick={resetDefault}>
                     Reset defaults
                   </button>
-                  <button className="btn secondary" onClick={() => setParams((p) => ({ ...p }))}>
+                  <button className="btn secondary" onClick={() => applyParams(params)}>
                     Refresh
                   </button>
                 </div>
@@ -398,42 +1466,907 @@ export default function App() {
             </div>
 
             <div className="controls-grid">
-              <Section title="Galaxy disk">
+              <Section title="Scene">
+                <div className="stack">
+                  <label className="small-label">Galaxies (controls edit the selected one)</label>
+                  <div className="chip-row">
+                    {galaxies.map((galaxy) => (
+                      <button
+                        key={galaxy.id}
+                        className={galaxy.id === selected.id ? "btn" : "btn secondary"}
+                        onClick={() => setSelectedId(galaxy.id)}
+                        aria-pressed={galaxy.id === selected.id}
+                      >
+                        {galaxy.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="stack">
+                  <label className="small-label">Scene actions</label>
+                  <div className="chip-row">
+                    <button className="btn secondary" onClick={addGalaxy}>
+                      Add galaxy
+                    </button>
+                    <button
+                      className="btn ghost"
+                      onClick={removeSelectedGalaxy}
+                      disabled={galaxies.length < 2}
+                    >
+                      Remove {selected.name}
+                    </button>
+                  </div>
+                </div>
                 <NumericField
-                  label="Star count"
-                  value={params.starCount}
-                  min={1000}
-                  max={5_000_000}
-                  step={10_000}
-                  decimals={0}
-                  onChange={(v) => updateParam("starCount", v)}
+                  label="Position X"
+                  value={selected.transform.position[0]}
+                  min={-300}
+                  max={300}
+                  step={1}
+                  decimals={1}
+                  onChange={(v) => updatePosition(0, v)}
                 />
                 <NumericField
-                  label="Arm count"
-                  value={params.armCount}
-                  min={1}
-                  max={8}
+                  label="Position Y"
+                  value={selected.transform.position[1]}
+                  min={-300}
+                  max={300}
                   step={1}
-                  decimals={0}
-                  onChange={(v) => updateParam("armCount", v)}
+                  decimals={1}
+                  onChange={(v) => updatePosition(1, v)}
                 />
                 <NumericField
-                  label="Arm twist"
-                  value={params.armTwist}
-                  min={0}
-                  max={12}
-                  step={0.1}
+                  label="Position Z"
+                  value={selected.transform.position[2]}
+                  min={-300}
+                  max={300}
+                  step={1}
                   decimals={1}
-                  onChange={(v) => updateParam("armTwist", v)}
+                  onChange={(v) => updatePosition(2, v)}
                 />
                 <NumericField
-                  label="Arm spread"
-                  value={params.armSpread}
+                  label="Inclination (deg)"
+                  value={selected.transform.inclination}
                   min={0}
-                  max={1}
-                  step={0.01}
-                  decimals={2}
-                  onChange={(v) => updateParam("armSpread", v)}
+                  max={180}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => updateTransform("inclination", v)}
+                />
+                <NumericField
+                  label="Position angle (deg)"
+                  value={selected.transform.positionAngle}
+                  min={0}
+                  max={360}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => updateTransform("positionAngle", v)}
+                />
+                <NumericField
+                  label="Scale"
+                  value={selected.transform.scale}
+                  min={0.1}
+                  max={4}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateTransform("scale", v)}
+                />
+              </Section>
+
+              <Section title="Catalogs">
+                <div className="stack">
+                  <label className="small-label">CSV or binary point file</label>
+                  <div className="chip-row">
+                    <label className={importing ? "btn secondary disabled" : "btn secondary"}>
+                      Import catalog...
+                      <input
+                        type="file"
+                        accept=".csv,.tsv,.txt,.dat,.bin,.raw,.f32,.f64"
+                        hidden
+                        disabled={importing}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = "";
+                          if (file) void openCatalog(file);
+                        }}
+                      />
+                    </label>
+                    <button
+                      className="btn ghost"
+                      onClick={() => importerRef.current?.cancel()}
+                      disabled={!importing}
+                    >
+                      Cancel import
+                    </button>
+                  </div>
+                </div>
+                {catalogs.length > 0 && (
+                  <div className="stack">
+                    <label className="small-label">Imported</label>
+                    {catalogs.map((catalog) => (
+                      <div key={catalog.id} className="chip-row catalog-row">
+                        <span className="shard-report">
+                          {catalog.name}: {catalog.count.toLocaleString()} stars, radius{" "}
+                          {catalog.extent.toFixed(1)}
+                        </span>
+                        <button className="btn ghost" onClick={() => removeCatalog(catalog.id)}>
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Section>
+
+              <Section title="Export">
+                <div className="stack">
+                  <label className="small-label">Format</label>
+                  <select
+                    value={exportOptions.format}
+                    onChange={(e) =>
+                      setExportOptions((prev) => ({
+                        ...prev,
+                        format: e.target.value as ExportFormat
+                      }))
+                    }
+                    className="select"
+                  >
+                    {exportFormats.map((format) => (
+                      <option key={format.value} value={format.value}>
+                        {format.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="stack">
+                  <label className="small-label">Export {selected.name}</label>
+                  <div className="chip-row">
+                    <button className="btn secondary" onClick={exportSelected} disabled={exporting}>
+                      Export
+                    </button>
+                    <button
+                      className={exportOptions.includeDust ? "btn" : "btn secondary"}
+                      onClick={() =>
+                        setExportOptions((prev) => ({ ...prev, includeDust: !prev.includeDust }))
+                      }
+                      aria-pressed={exportOptions.includeDust}
+                    >
+                      Include dust
+                    </button>
+                    <button
+                      className="btn ghost"
+                      onClick={() => exporterRef.current?.cancel()}
+                      disabled={!exporting}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              </Section>
+
+              <Section title="Navigation">
+                <div className="stack">
+                  <label className="small-label">Camera mode</label>
+                  <select
+                    value={cameraMode}
+                    onChange={(e) => setCameraMode(e.target.value as CameraMode)}
+                    className="select"
+                  >
+                    {cameraModes.map((mode) => (
+                      <option key={mode.value} value={mode.value}>
+                        {mode.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <NumericField
+                  label="Fly speed (units/s)"
+                  value={flySpeed}
+                  min={1}
+                  max={500}
+                  step={1}
+                  decimals={0}
+                  onChange={setFlySpeed}
+                />
+                <div className="chip-row">
+                  <button
+                    className="btn secondary"
+                    onClick={() => controllerRef.current?.focusOn(vec3.fromValues(0, 0, 0))}
+                  >
+                    Focus on origin
+                  </button>
+                </div>
+                <div className="shard-report">
+                  Double-click a star to glide the target to it. Right-drag or drag with two
+                  fingers to pan.
+                </div>
+              </Section>
+
+              <Section title="Camera path">
+                <NumericField
+                  label="Field of view (deg)"
+                  value={fov}
+                  min={fovRange.min}
+                  max={fovRange.max}
+                  step={1}
+                  decimals={0}
+                  onChange={updateFov}
+                />
+                <div className="stack">
+                  <label className="small-label">
+                    Keyframes ({pathDuration(cameraPath).toFixed(1)}s)
+                  </label>
+                  <div className="chip-row">
+                    {cameraPath.keyframes.map((keyframe, index) => (
+                      <button
+                        key={index}
+                        className={index === keyframeIndex ? "btn" : "btn secondary"}
+                        onClick={() => {
+                          setKeyframeIndex(index);
+                          applyCamera(keyframe.camera);
+                        }}
+                        aria-pressed={index === keyframeIndex}
+                      >
+                        {keyframe.time.toFixed(1)}s
+                      </button>
+                    ))}
+                    <button className="btn secondary" onClick={addKeyframe}>
+                      Add keyframe
+                    </button>
+                  </div>
+                </div>
+                {selectedKeyframe && (
+                  <>
+                    <NumericField
+                      label="Keyframe time (s)"
+                      value={selectedKeyframe.time}
+                      min={0}
+                      max={3600}
+                      step={0.1}
+                      decimals={1}
+                      onChange={(v) => updateKeyframe({ time: v })}
+                    />
+                    <div className="stack">
+                      <label className="small-label">Easing to next keyframe</label>
+                      <select
+                        value={selectedKeyframe.easing}
+                        onChange={(e) => updateKeyframe({ easing: e.target.value as Easing })}
+                        className="select"
+                      >
+                        {easings.map((easing) => (
+                          <option key={easing.value} value={easing.value}>
+                            {easing.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="stack">
+                      <label className="small-label">Keyframe</label>
+                      <div className="chip-row">
+                        <button
+                          className="btn secondary"
+                          onClick={() =>
+                            updateKeyframe({ camera: rendererRef.current!.getCameraState() })
+                          }
+                        >
+                          Set to current view
+                        </button>
+                        <button className="btn ghost" onClick={removeKeyframe}>
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  </>
+                )}
+                <NumericField
+                  label="Playhead (s)"
+                  value={roundTo(pathTime, 2)}
+                  min={0}
+                  max={Math.max(0, pathDuration(cameraPath))}
+                  step={0.05}
+                  decimals={2}
+                  onChange={seekPath}
+                />
+                <div className="stack">
+                  <label className="small-label">Flythrough</label>
+                  <div className="chip-row">
+                    <button
+                      className="btn secondary"
+                      onClick={() => setPathPlaying((p) => !p)}
+                      disabled={cameraPath.keyframes.length < 2}
+                    >
+                      {pathPlaying ? "Stop" : "Play"}
+                    </button>
+                    <button
+                      className={cameraPath.loop ? "btn" : "btn secondary"}
+                      onClick={() => setCameraPath((path) => ({ ...path, loop: !path.loop }))}
+                      aria-pressed={cameraPath.loop}
+                    >
+                      Loop
+                    </button>
+                  </div>
+                </div>
+                <div className="stack">
+                  <label className="small-label">Path file (JSON)</label>
+                  <div className="chip-row">
+                    <button
+                      className="btn secondary"
+                      onClick={savePath}
+                      disabled={cameraPath.keyframes.length === 0}
+                    >
+                      Save
+                    </button>
+                    <label className="btn secondary">
+                      Load...
+                      <input
+                        type="file"
+                        accept=".json,application/json"
+                        hidden
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = "";
+                          if (file) loadPath(file);
+                        }}
+                      />
+                    </label>
+                  </div>
+                </div>
+              </Section>
+
+              <Section title="Post-processing">
+                <div className="stack">
+                  <label className="small-label">Tone mapping</label>
+                  <select
+                    value={postSettings.toneMapping}
+                    onChange={(e) =>
+                      setPostSettings((prev) => ({
+                        ...prev,
+                        toneMapping: e.target.value as ToneMapping
+                      }))
+                    }
+                    className="select"
+                  >
+                    {toneMappings.map((mapping) => (
+                      <option key={mapping.value} value={mapping.value}>
+                        {mapping.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <NumericField
+                  label="Exposure (EV)"
+                  value={postSettings.exposure}
+                  min={-5}
+                  max={5}
+                  step={0.1}
+                  decimals={1}
+                  onChange={(v) => updatePost("exposure", v)}
+                />
+                <NumericField
+                  label="Bloom threshold"
+                  value={postSettings.bloomThreshold}
+                  min={0}
+                  max={8}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updatePost("bloomThreshold", v)}
+                />
+                <NumericField
+                  label="Bloom radius"
+                  value={postSettings.bloomRadius}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updatePost("bloomRadius", v)}
+                />
+                <NumericField
+                  label="Bloom intensity"
+                  value={postSettings.bloomIntensity}
+                  min={0}
+                  max={3}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updatePost("bloomIntensity", v)}
+                />
+                <div className="chip-row">
+                  <button
+                    className="btn ghost"
+                    onClick={() => setPostSettings(defaultPostSettings)}
+                  >
+                    Reset
+                  </button>
+                </div>
+                {rendererReady && rendererRef.current && !rendererRef.current.isHdr() && (
+                  <div className="shard-report">
+                    This GPU can't render to half-float targets, so bright cores still clip.
+                  </div>
+                )}
+              </Section>
+
+              <Section title="Render image">
+                <div className="stack">
+                  <label className="small-label">Size</label>
+                  <select
+                    value={
+                      imageSizes.find(
+                        (size) => size.width === imageSize.width && size.height === imageSize.height
+                      )?.label ?? ""
+                    }
+                    onChange={(e) => {
+                      const size = imageSizes.find((s) => s.label === e.target.value);
+                      if (size) setImageSize({ width: size.width, height: size.height });
+                    }}
+                    className="select"
+                  >
+                    <option value="" disabled>
+                      Custom
+                    </option>
+                    {imageSizes.map((size) => (
+                      <option key={size.label} value={size.label}>
+                        {size.label} ({size.width} x {size.height})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <NumericField
+                  label="Width (px)"
+                  value={imageSize.width}
+                  min={16}
+                  max={16384}
+                  step={16}
+                  decimals={0}
+                  onChange={(v) => setImageSize((prev) => ({ ...prev, width: v }))}
+                />
+                <NumericField
+                  label="Height (px)"
+                  value={imageSize.height}
+                  min={16}
+                  max={16384}
+                  step={16}
+                  decimals={0}
+                  onChange={(v) => setImageSize((prev) => ({ ...prev, height: v }))}
+                />
+                <div className="stack">
+                  <label className="small-label">Current view as PNG</label>
+                  <div className="chip-row">
+                    <button
+                      className="btn secondary"
+                      onClick={renderImage}
+                      disabled={!rendererReady || renderingImage}
+                    >
+                      Render image
+                    </button>
+                  </div>
+                </div>
+              </Section>
+
+              <Section title="Render animation">
+                <div className="stack">
+                  <label className="small-label">Output</label>
+                  <select
+                    value={sequence.format}
+                    onChange={(e) => updateSequence({ format: e.target.value as SequenceFormat })}
+                    className="select"
+                  >
+                    {sequenceFormats.map((format) => (
+                      <option
+                        key={format.value}
+                        value={format.value}
+                        disabled={format.value === "webm" && !videoEncodingAvailable()}
+                      >
+                        {format.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <NumericField
+                  label="Width (px)"
+                  value={sequence.width}
+                  min={16}
+                  max={7680}
+                  step={16}
+                  decimals={0}
+                  onChange={(v) => updateSequence({ width: v })}
+                />
+                <NumericField
+                  label="Height (px)"
+                  value={sequence.height}
+                  min={16}
+                  max={4320}
+                  step={16}
+                  decimals={0}
+                  onChange={(v) => updateSequence({ height: v })}
+                />
+                <NumericField
+                  label="Frame rate (fps)"
+                  value={sequence.fps}
+                  min={1}
+                  max={120}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => updateSequence({ fps: v })}
+                />
+                <NumericField
+                  label="Duration (s)"
+                  value={sequence.duration}
+                  min={0.1}
+                  max={600}
+                  step={0.5}
+                  decimals={1}
+                  onChange={(v) => updateSequence({ duration: v })}
+                />
+                <div className="stack">
+                  <label className="small-label">
+                    {frameCount(sequence).toLocaleString()} frames
+                  </label>
+                  <div className="chip-row">
+                    <button
+                      className="btn secondary"
+                      onClick={() => updateSequence({ duration: pathDuration(cameraPath) })}
+                      disabled={pathDuration(cameraPath) <= 0}
+                    >
+                      Match camera path
+                    </button>
+                    <button
+                      className={sequenceRotates ? "btn" : "btn secondary"}
+                      onClick={() => setSequenceRotates((r) => !r)}
+                      aria-pressed={sequenceRotates}
+                    >
+                      Rotate galaxies
+                    </button>
+                  </div>
+                </div>
+                <div className="stack">
+                  <label className="small-label">Offline, at a fixed time step</label>
+                  <div className="chip-row">
+                    <button
+                      className="btn secondary"
+                      onClick={renderAnimation}
+                      disabled={!rendererReady || sequenceProgress !== null}
+                    >
+                      Render animation
+                    </button>
+                  </div>
+                </div>
+              </Section>
+
+              <Section title="Interaction">
+                <div className="stack">
+                  <label className="small-label">Partner of {selected.name}</label>
+                  <select
+                    value={partner?.id ?? ""}
+                    onChange={(e) => setPartnerId(e.target.value)}
+                    className="select"
+                    disabled={!partner}
+                  >
+                    {!partner && <option value="">Add a second galaxy</option>}
+                    {galaxies
+                      .filter((g) => g.id !== selected.id)
+                      .map((g) => (
+                        <option key={g.id} value={g.id}>
+                          {g.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                <div className="stack">
+                  <label className="small-label">Encounter</label>
+                  <select
+                    value={interactionPreset}
+                    onChange={(e) => loadInteractionPreset(e.target.value)}
+                    className="select"
+                  >
+                    {interactionPresets.map((p) => (
+                      <option key={p.name}>{p.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <NumericField
+                  label="Pericenter (disk radii)"
+                  value={interaction.pericenter}
+                  min={0.05}
+                  max={6}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateInteraction("pericenter", v)}
+                />
+                <NumericField
+                  label="Eccentricity"
+                  value={interaction.eccentricity}
+                  min={0}
+                  max={2}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateInteraction("eccentricity", v)}
+                />
+                <NumericField
+                  label="Mass ratio"
+                  value={interaction.massRatio}
+                  min={0.02}
+                  max={4}
+                  step={0.01}
+                  decimals={2}
+                  onChange={(v) => updateInteraction("massRatio", v)}
+                />
+                <NumericField
+                  label="Start separation"
+                  value={interaction.startSeparation}
+                  min={1}
+                  max={12}
+                  step={0.1}
+                  decimals={1}
+                  onChange={(v) => updateInteraction("startSeparation", v)}
+                />
+                <NumericField
+                  label="Dynamical friction"
+                  value={interaction.friction}
+                  min={0}
+                  max={2}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateInteraction("friction", v)}
+                />
+                <NumericField
+                  label="Duration"
+                  value={interaction.duration}
+                  min={10}
+                  max={400}
+                  step={5}
+                  decimals={0}
+                  onChange={(v) => updateInteraction("duration", v)}
+                />
+                <NumericField
+                  label="Frames"
+                  value={interaction.frameCount}
+                  min={10}
+                  max={400}
+                  step={10}
+                  decimals={0}
+                  onChange={(v) => updateInteraction("frameCount", v)}
+                />
+                <NumericField
+                  label="Particle budget"
+                  value={interaction.particleBudget}
+                  min={5000}
+                  max={400_000}
+                  step={5000}
+                  decimals={0}
+                  onChange={(v) => updateInteraction("particleBudget", v)}
+                />
+                <div className="stack">
+                  <label className="small-label">Simulation</label>
+                  <div className="chip-row">
+                    <button
+                      className="btn secondary"
+                      onClick={simulateInteraction}
+                      disabled={!partner || simulating}
+                    >
+                      Simulate
+                    </button>
+                    <button
+                      className="btn ghost"
+                      onClick={exitInteraction}
+                      disabled={!simulating && framesReady === 0}
+                    >
+                      {simulating ? "Cancel" : "Back to scene"}
+                    </button>
+                  </div>
+                </div>
+                <NumericField
+                  label="Frame"
+                  value={Math.min(frameIndex, Math.max(0, framesReady - 1))}
+                  min={0}
+                  max={Math.max(0, framesReady - 1)}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => {
+                    setPlaying(false);
+                    setFrameIndex(v);
+                  }}
+                />
+                <div className="stack">
+                  <label className="small-label">
+                    {frameAvailable && encounterRef.current
+                      ? `t = ${encounterRef.current.frames[frameIndex].time.toFixed(1)}`
+                      : "No frames yet"}
+                  </label>
+                  <div className="chip-row">
+                    <button
+                      className="btn secondary"
+                      onClick={() => stepFrame(-1)}
+                      disabled={framesReady === 0}
+                    >
+                      Step back
+                    </button>
+                    <button
+                      className={playing ? "btn" : "btn secondary"}
+                      onClick={() => setPlaying((p) => !p)}
+                      disabled={framesReady === 0}
+                      aria-pressed={playing}
+                    >
+                      {playing ? "Pause" : "Play"}
+                    </button>
+                    <button
+                      className="btn secondary"
+                      onClick={() => stepFrame(1)}
+                      disabled={framesReady === 0}
+                    >
+                      Step
+                    </button>
+                  </div>
+                </div>
+              </Section>
+
+              <Section title="Rotation">
+                <div className="stack">
+                  <label className="small-label">Rotation curve</label>
+                  <select
+                    value={rotation.curve}
+                    onChange={(e) =>
+                      setRotation((prev) => ({ ...prev, curve: e.target.value as RotationCurve }))
+                    }
+                    className="select"
+                  >
+                    {rotationCurves.map((curve) => (
+                      <option key={curve.value} value={curve.value}>
+                        {curve.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <NumericField
+                  label="Core radius"
+                  value={rotation.coreRadius}
+                  min={0.5}
+                  max={60}
+                  step={0.5}
+                  decimals={1}
+                  onChange={(v) => updateRotation("coreRadius", v)}
+                />
+                <NumericField
+                  label="Core velocity"
+                  value={rotation.velocity}
+                  min={0}
+                  max={40}
+                  step={0.5}
+                  decimals={1}
+                  onChange={(v) => updateRotation("velocity", v)}
+                />
+                <NumericField
+                  label="Speed"
+                  value={rotation.speed}
+                  min={0}
+                  max={10}
+                  step={0.1}
+                  decimals={1}
+                  onChange={(v) => updateRotation("speed", v)}
+                />
+                <div className="stack">
+                  <label className="small-label">
+                    {Number.isFinite(edgePeriod)
+                      ? `Disk edge orbit: ${edgePeriod.toFixed(1)}s`
+                      : "Disk edge is not moving"}
+                  </label>
+                  <div className="chip-row">
+                    <button
+                      className={rotationPlaying ? "btn" : "btn secondary"}
+                      onClick={() => setRotationPlaying((p) => !p)}
+                      aria-pressed={rotationPlaying}
+                    >
+                      {rotationPlaying ? "Pause" : "Play"}
+                    </button>
+                    <button
+                      className="btn ghost"
+                      onClick={() => rendererRef.current?.resetRotation()}
+                    >
+                      Reset
+                    </button>
+                  </div>
+                </div>
+              </Section>
+
+              <Section title="Seed">
+                <NumericField
+                  label="Seed"
+                  value={params.seed}
+                  min={0}
+                  max={maxSeed}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => updateParam("seed", v)}
+                />
+                <div className="stack">
+                  <label className="small-label">
+                    {seedLocked ? "Locked across presets" : "Rerolled on preset / refresh"}
+                  </label>
+                  <div className="chip-row">
+                    <button
+                      className={seedLocked ? "btn" : "btn secondary"}
+                      onClick={() => setSeedLocked((locked) => !locked)}
+                      aria-pressed={seedLocked}
+                    >
+                      {seedLocked ? "Unlock seed" : "Lock seed"}
+                    </button>
+                    <button className="btn secondary" onClick={rerollSeed}>
+                      Reroll
+                    </button>
+                  </div>
+                </div>
+              </Section>
+
+              <Section title="Performance">
+                <NumericField
+                  label="Worker threads"
+                  value={poolSize}
+                  min={1}
+                  max={Math.max(16, defaultPoolSize())}
+                  step={1}
+                  decimals={0}
+                  onChange={setPoolSize}
+                />
+                <div className="stack">
+                  <label className="small-label">Vertex format</label>
+                  <select
+                    value={vertexLayout}
+                    onChange={(e) => setVertexLayout(e.target.value as VertexLayout)}
+                    className="select"
+                  >
+                    <option value="float32">Float32 (32 B/star)</option>
+                    <option value="compact">Compact half-float (14 B/star)</option>
+                  </select>
+                </div>
+                <div className="stack">
+                  <label className="small-label">Last generation</label>
+                  <div className="shard-report">{shardReport ?? "No shard timings yet"}</div>
+                </div>
+                <div className="chip-row">
+                  <button
+                    className={showStats ? "btn" : "btn secondary"}
+                    onClick={() => setShowStats((show) => !show)}
+                    aria-pressed={showStats}
+                  >
+                    Stats overlay
+                  </button>
+                </div>
+              </Section>
+
+              <Section title="Galaxy disk">
+                <NumericField
+                  label="Star count"
+                  value={params.starCount}
+                  min={1000}
+                  max={5_000_000}
+                  step={10_000}
+                  decimals={0}
+                  onChange={(v) => updateParam("starCount", v)}
+                />
+                <NumericField
+                  label="Arm count"
+                  value={params.armCount}
+                  min={1}
+                  max={8}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => updateParam("armCount", v)}
+                />
+                <NumericField
+                  label="Arm twist"
+                  value={params.armTwist}
+                  min={0}
+                  max={12}
+                  step={0.1}
+                  decimals={1}
+                  onChange={(v) => updateParam("armTwist", v)}
+                />
+                <NumericField
+                  label="Arm spread"
+                  value={params.armSpread}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  decimals={2}
+                  onChange={(v) => updateParam("armSpread", v)}
                 />
                 <NumericField
                   label="Disk radius"
@@ -442,100 +2375,987 @@ export default function App() {
                   max={120}
                   step={0.5}
                   decimals={1}
-                  onChange={(v) => updateParam("diskRadius", v)}
+                  onChange={(v) => updateParam("diskRadius", v)}
+                />
+                <NumericField
+                  label="Vertical thickness"
+                  value={params.verticalThickness}
+                  min={0}
+                  max={5}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateParam("verticalThickness", v)}
+                />
+              </Section>
+
+              <Section title="Disk shape">
+                <NumericField
+                  label="Disk flare"
+                  value={params.diskFlare}
+                  min={0}
+                  max={5}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateParam("diskFlare", v)}
+                />
+                <NumericField
+                  label="Warp amplitude"
+                  value={params.warpAmplitude}
+                  min={-20}
+                  max={20}
+                  step={0.1}
+                  decimals={1}
+                  onChange={(v) => updateParam("warpAmplitude", v)}
+                />
+                <NumericField
+                  label="Warp start (radius fraction)"
+                  value={params.warpStart}
+                  min={0}
+                  max={0.95}
+                  step={0.01}
+                  decimals={2}
+                  onChange={(v) => updateParam("warpStart", v)}
+                />
+                <NumericField
+                  label="Warp angle (deg)"
+                  value={params.warpAngle}
+                  min={0}
+                  max={360}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => updateParam("warpAngle", v)}
+                />
+              </Section>
+
+              <Section title="Noise & light">
+                <NumericField
+                  label="Noise"
+                  value={params.noise}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  decimals={2}
+                  onChange={(v) => updateParam("noise", v)}
+                />
+                <NumericField
+                  label="Core falloff"
+                  value={params.coreFalloff}
+                  min={0.1}
+                  max={6}
+                  step={0.1}
+                  decimals={2}
+                  onChange={(v) => updateParam("coreFalloff", v)}
+                />
+                <NumericField
+                  label="Brightness"
+                  value={params.brightness}
+                  min={0.1}
+                  max={2.5}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateParam("brightness", v)}
+                />
+                <NumericField
+                  label="Clump octaves (0 = off)"
+                  value={params.noiseOctaves}
+                  min={0}
+                  max={8}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => updateParam("noiseOctaves", v)}
+                />
+                <NumericField
+                  label="Clump frequency"
+                  value={params.noiseFrequency}
+                  min={0.2}
+                  max={24}
+                  step={0.1}
+                  decimals={1}
+                  onChange={(v) => updateParam("noiseFrequency", v)}
+                />
+                <NumericField
+                  label="Clump contrast"
+                  value={params.noiseContrast}
+                  min={0}
+                  max={4}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateParam("noiseContrast", v)}
+                />
+              </Section>
+
+              <Section title="Bulge">
+                <NumericField
+                  label="Bulge radius"
+                  value={params.bulgeRadius}
+                  min={0.1}
+                  max={80}
+                  step={0.1}
+                  decimals={1}
+                  onChange={(v) => updateParam("bulgeRadius", v)}
+                />
+                <NumericField
+                  label="Bulge star count"
+                  value={params.bulgeStarCount}
+                  min={0}
+                  max={100000}
+                  step={1000}
+                  decimals={0}
+                  onChange={(v) => updateParam("bulgeStarCount", v)}
+                />
+                <NumericField
+                  label="Bulge falloff"
+                  value={params.bulgeFalloff}
+                  min={0.5}
+                  max={10}
+                  step={0.1}
+                  decimals={1}
+                  onChange={(v) => updateParam("bulgeFalloff", v)}
+                />
+                <NumericField
+                  label="Bulge vertical scale"
+                  value={params.bulgeVerticalScale}
+                  min={0.1}
+                  max={4}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateParam("bulgeVerticalScale", v)}
+                />
+                <NumericField
+                  label="Bulge brightness"
+                  value={params.bulgeBrightness}
+                  min={0.1}
+                  max={6}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateParam("bulgeBrightness", v)}
+                />
+              </Section>
+
+              <Section title="Stellar halo">
+                <NumericField
+                  label="Halo star count"
+                  value={params.haloStarCount}
+                  min={0}
+                  max={300000}
+                  step={1000}
+                  decimals={0}
+                  onChange={(v) => updateParam("haloStarCount", v)}
+                />
+                <NumericField
+                  label="Halo radius"
+                  value={params.haloRadius}
+                  min={10}
+                  max={250}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => updateParam("haloRadius", v)}
+                />
+                <NumericField
+                  label="Halo profile exponent"
+                  value={params.haloProfile}
+                  min={2}
+                  max={5}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateParam("haloProfile", v)}
+                />
+                <NumericField
+                  label="Halo brightness"
+                  value={params.haloBrightness}
+                  min={0.05}
+                  max={3}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateParam("haloBrightness", v)}
+                />
+              </Section>
+
+              <Section title="Globular clusters">
+                <NumericField
+                  label="Cluster count"
+                  value={params.globularCount}
+                  min={0}
+                  max={1000}
+                  step={5}
+                  decimals={0}
+                  onChange={(v) => updateParam("globularCount", v)}
+                />
+                <NumericField
+                  label="Stars per cluster"
+                  value={params.globularStarCount}
+                  min={50}
+                  max={5000}
+                  step={50}
+                  decimals={0}
+                  onChange={(v) => updateParam("globularStarCount", v)}
+                />
+                <NumericField
+                  label="Cluster radius"
+                  value={params.globularRadius}
+                  min={0.05}
+                  max={4}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateParam("globularRadius", v)}
+                />
+                <NumericField
+                  label="Cluster brightness"
+                  value={params.globularBrightness}
+                  min={0.1}
+                  max={4}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateParam("globularBrightness", v)}
+                />
+              </Section>
+
+              <Section title="Rings">
+                <div className="stack">
+                  <label className="small-label">Ring</label>
+                  <select
+                    value={ringKind}
+                    onChange={(e) => setRingKind(e.target.value as RingKind)}
+                    className="select"
+                  >
+                    {ringKinds.map((ring) => (
+                      <option key={ring.value} value={ring.value}>
+                        {ring.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <NumericField
+                  label="Ring stars"
+                  value={params[`${ringKind}StarCount`]}
+                  min={0}
+                  max={500_000}
+                  step={1000}
+                  decimals={0}
+                  onChange={(v) => updateParam(`${ringKind}StarCount`, v)}
+                />
+                <NumericField
+                  label="Ring radius"
+                  value={params[`${ringKind}Radius`]}
+                  min={0.5}
+                  max={150}
+                  step={0.5}
+                  decimals={1}
+                  onChange={(v) => updateParam(`${ringKind}Radius`, v)}
                 />
                 <NumericField
-                  label="Vertical thickness"
-                  value={params.verticalThickness}
+                  label="Ring width"
+                  value={params[`${ringKind}Width`]}
+                  min={0.05}
+                  max={20}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateParam(`${ringKind}Width`, v)}
+                />
+                <NumericField
+                  label="Ring inclination (deg)"
+                  value={params[`${ringKind}Inclination`]}
                   min={0}
-                  max={5}
+                  max={180}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => updateParam(`${ringKind}Inclination`, v)}
+                />
+              </Section>
+
+              <Section title="Shells">
+                <NumericField
+                  label="Shell stars"
+                  value={params.shellStarCount}
+                  min={0}
+                  max={500_000}
+                  step={1000}
+                  decimals={0}
+                  onChange={(v) => updateParam("shellStarCount", v)}
+                />
+                <NumericField
+                  label="Shell count"
+                  value={params.shellCount}
+                  min={1}
+                  max={16}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => updateParam("shellCount", v)}
+                />
+                <NumericField
+                  label="Outer shell radius"
+                  value={params.shellRadius}
+                  min={2}
+                  max={200}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => updateParam("shellRadius", v)}
+                />
+                <NumericField
+                  label="Shell width"
+                  value={params.shellWidth}
+                  min={0.05}
+                  max={20}
                   step={0.05}
                   decimals={2}
-                  onChange={(v) => updateParam("verticalThickness", v)}
+                  onChange={(v) => updateParam("shellWidth", v)}
+                />
+                <NumericField
+                  label="Shell axis inclination (deg)"
+                  value={params.shellInclination}
+                  min={-90}
+                  max={90}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => updateParam("shellInclination", v)}
                 />
               </Section>
 
-              <Section title="Noise & light">
+              <Section title="Bar">
                 <NumericField
-                  label="Noise"
-                  value={params.noise}
+                  label="Bar length"
+                  value={params.barLength}
                   min={0}
+                  max={60}
+                  step={0.5}
+                  decimals={1}
+                  onChange={(v) => updateParam("barLength", v)}
+                />
+                <NumericField
+                  label="Bar axis ratio"
+                  value={params.barAxisRatio}
+                  min={0.05}
                   max={1}
                   step={0.01}
                   decimals={2}
-                  onChange={(v) => updateParam("noise", v)}
+                  onChange={(v) => updateParam("barAxisRatio", v)}
                 />
                 <NumericField
-                  label="Core falloff"
-                  value={params.coreFalloff}
-                  min={0.1}
-                  max={6}
-                  step={0.1}
-                  decimals={2}
-                  onChange={(v) => updateParam("coreFalloff", v)}
+                  label="Bar star count"
+                  value={params.barStarCount}
+                  min={0}
+                  max={100000}
+                  step={1000}
+                  decimals={0}
+                  onChange={(v) => updateParam("barStarCount", v)}
                 />
                 <NumericField
-                  label="Brightness"
-                  value={params.brightness}
+                  label="Bar brightness"
+                  value={params.barBrightness}
                   min={0.1}
-                  max={2.5}
+                  max={6}
                   step={0.05}
                   decimals={2}
-                  onChange={(v) => updateParam("brightness", v)}
+                  onChange={(v) => updateParam("barBrightness", v)}
+                />
+                <NumericField
+                  label="Bar angle"
+                  value={params.barAngle}
+                  min={-180}
+                  max={180}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => updateParam("barAngle", v)}
                 />
               </Section>
 
-              <Section title="Bulge">
+              <Section title="Dust lanes">
                 <NumericField
-                  label="Bulge radius"
-                  value={params.bulgeRadius}
-                  min={0.1}
-                  max={80}
-                  step={0.1}
-                  decimals={1}
-                  onChange={(v) => updateParam("bulgeRadius", v)}
+                  label="Dust density"
+                  value={params.dustDensity}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  decimals={2}
+                  onChange={(v) => updateParam("dustDensity", v)}
                 />
                 <NumericField
-                  label="Bulge star count"
-                  value={params.bulgeStarCount}
+                  label="Dust width"
+                  value={params.dustWidth}
                   min={0}
-                  max={100000}
-                  step={1000}
-                  decimals={0}
-                  onChange={(v) => updateParam("bulgeStarCount", v)}
+                  max={0.5}
+                  step={0.01}
+                  decimals={2}
+                  onChange={(v) => updateParam("dustWidth", v)}
                 />
                 <NumericField
-                  label="Bulge falloff"
-                  value={params.bulgeFalloff}
-                  min={0.5}
-                  max={10}
-                  step={0.1}
-                  decimals={1}
-                  onChange={(v) => updateParam("bulgeFalloff", v)}
+                  label="Dust opacity"
+                  value={params.dustOpacity}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  decimals={2}
+                  onChange={(v) => updateParam("dustOpacity", v)}
                 />
+              </Section>
+
+              <Section title="Nebula knots (HII)">
                 <NumericField
-                  label="Bulge vertical scale"
-                  value={params.bulgeVerticalScale}
-                  min={0.1}
-                  max={4}
+                  label="Knot count"
+                  value={params.hiiRegionCount}
+                  min={0}
+                  max={3000}
+                  step={10}
+                  decimals={0}
+                  onChange={(v) => updateParam("hiiRegionCount", v)}
+                />
+                <NumericField
+                  label="Clump size"
+                  value={params.hiiClumpSize}
+                  min={0.05}
+                  max={5}
                   step={0.05}
                   decimals={2}
-                  onChange={(v) => updateParam("bulgeVerticalScale", v)}
+                  onChange={(v) => updateParam("hiiClumpSize", v)}
                 />
                 <NumericField
-                  label="Bulge brightness"
-                  value={params.bulgeBrightness}
+                  label="Knot brightness"
+                  value={params.hiiBrightness}
                   min={0.1}
                   max={6}
                   step={0.05}
                   decimals={2}
-                  onChange={(v) => updateParam("bulgeBrightness", v)}
+                  onChange={(v) => updateParam("hiiBrightness", v)}
+                />
+              </Section>
+
+              <Section title="Stellar populations">
+                <div className="stack">
+                  <label className="small-label">Star colors</label>
+                  <select
+                    value={params.colorMode}
+                    onChange={(e) =>
+                      setParams((p) => ({ ...p, colorMode: e.target.value as ColorMode }))
+                    }
+                    className="select"
+                  >
+                    <option value="population">Population (blackbody)</option>
+                    <option value="palette">Brightness palette</option>
+                  </select>
+                </div>
+                <NumericField
+                  label="Star formation rate"
+                  value={params.starFormationRate}
+                  min={0}
+                  max={3}
+                  step={0.05}
+                  decimals={2}
+                  onChange={(v) => updateParam("starFormationRate", v)}
+                />
+                <NumericField
+                  label="Young age (Gyr)"
+                  value={params.youngAge}
+                  min={0.005}
+                  max={2}
+                  step={0.005}
+                  decimals={3}
+                  onChange={(v) => updateParam("youngAge", v)}
+                />
+                <NumericField
+                  label="Disk age (Gyr)"
+                  value={params.diskAge}
+                  min={0.5}
+                  max={13}
+                  step={0.1}
+                  decimals={1}
+                  onChange={(v) => updateParam("diskAge", v)}
                 />
+                <NumericField
+                  label="Bulge age (Gyr)"
+                  value={params.bulgeAge}
+                  min={0.5}
+                  max={13.5}
+                  step={0.1}
+                  decimals={1}
+                  onChange={(v) => updateParam("bulgeAge", v)}
+                />
+              </Section>
+
+              <Section title="Palette">
+                {params.colorMode === "population" && (
+                  <div className="shard-report">
+                    Stars use blackbody colors; set Star colors to Brightness palette to draw
+                    with this gradient.
+                  </div>
+                )}
+                <div className="stack">
+                  <label className="small-label">Click to add a stop, drag to move</label>
+                  <GradientEditor
+                    gradient={palette}
+                    selected={stopIndex}
+                    onSelect={setPaletteStop}
+                    onMove={(index, position) => updateStop(index, { position })}
+                    onAdd={addStop}
+                  />
+                </div>
+                <NumericField
+                  label="Stop position"
+                  value={activeStop.position}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  decimals={3}
+                  onChange={(v) => updateStop(stopIndex, { position: v })}
+                />
+                <div className="stack">
+                  <label className="small-label">Stop color</label>
+                  <div className="chip-row">
+                    <input
+                      type="color"
+                      className="color-input"
+                      value={colorToHex(activeStop.color)}
+                      onChange={(e) => {
+                        const color = hexToColor(e.target.value);
+                        if (color) updateStop(stopIndex, { color });
+                      }}
+                    />
+                    <button
+                      className="btn ghost"
+                      onClick={removeStop}
+                      disabled={palette.length < 3}
+                    >
+                      Remove stop
+                    </button>
+                  </div>
+                </div>
+                <div className="stack">
+                  <label className="small-label">Actions</label>
+                  <div className="chip-row">
+                    <button className="btn secondary" onClick={reversePalette}>
+                      Reverse
+                    </button>
+                    <button
+                      className="btn secondary"
+                      onClick={() => {
+                        updatePalette(() => findPresetPalette(presetName));
+                        setPaletteStop(0);
+                      }}
+                    >
+                      Reset to preset
+                    </button>
+                  </div>
+                </div>
+                <div className="stack">
+                  <label className="small-label">Palette file format</label>
+                  <select
+                    value={paletteFormat}
+                    onChange={(e) => setPaletteFormat(e.target.value as GradientFormat)}
+                    className="select"
+                  >
+                    {gradientFormats.map((format) => (
+                      <option key={format.value} value={format.value}>
+                        {format.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="stack">
+                  <label className="small-label">JSON, GIMP .ggr or CSS gradient</label>
+                  <div className="chip-row">
+                    <label className="btn secondary">
+                      Import palette...
+                      <input
+                        type="file"
+                        accept=".json,.ggr,.css,.txt"
+                        hidden
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = "";
+                          if (file) importPalette(file);
+                        }}
+                      />
+                    </label>
+                    <button className="btn secondary" onClick={exportPalette}>
+                      Export palette
+                    </button>
+                  </div>
+                </div>
               </Section>
             </div>
           </div>
         </section>
       </div>
+
+      {sequenceProgress && (
+        <div className="modal-backdrop">
+          <div className="panel modal" role="dialog" aria-modal="true" aria-label="Rendering">
+            <div className="panel-heading">Rendering animation</div>
+            <progress
+              className="progress"
+              value={sequenceProgress.frame}
+              max={sequenceProgress.total}
+            />
+            <div className="shard-report">
+              {formatSequenceProgress(
+                sequenceProgress.frame,
+                sequenceProgress.total,
+                performance.now() - sequenceProgress.started
+              )}
+            </div>
+            <div className="chip-row modal-actions">
+              <button className="btn ghost" onClick={() => sequenceAbortRef.current?.abort()}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {catalogDraft && (
+        <CatalogDialog
+          draft={catalogDraft}
+          onLayoutChange={updateCatalogLayout}
+          onOptionsChange={updateCatalogOptions}
+          onImport={importCatalog}
+          onClose={() => setCatalogDraft(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function catalogPreview(file: File, sample: ArrayBuffer, options: CatalogOptions) {
+  if (options.format === "binary") return previewBinary(sample, options);
+  const complete = file.size <= sample.byteLength;
+  return previewCsv(new TextDecoder().decode(sample), options, complete);
+}
+
+/** Maps catalog columns to positions, brightness and color before the file is parsed. */
+function CatalogDialog({
+  draft,
+  onLayoutChange,
+  onOptionsChange,
+  onImport,
+  onClose
+}: {
+  draft: CatalogDraft;
+  onLayoutChange: (patch: Partial<CatalogOptions>) => void;
+  onOptionsChange: (patch: Partial<CatalogOptions>) => void;
+  onImport: () => void;
+  onClose: () => void;
+}) {
+  const { file, options, preview } = draft;
+  const { mapping } = options;
+  const setMapping = (patch: Partial<ColumnMapping>) =>
+    onOptionsChange({ mapping: { ...mapping, ...patch } });
+
+  const radii = preview.rows.map((row) =>
+    Math.hypot(row[mapping.x], row[mapping.y], row[mapping.z])
+  );
+  const sampleRadius = Math.max(0, ...radii.filter(Number.isFinite));
+  const fitScale = () => {
+    if (sampleRadius <= 0) return;
+    onOptionsChange({ unitScale: Number((catalogFitRadius / sampleRadius).toPrecision(3)) });
+  };
+
+  const columnSelect = (
+    label: string,
+    value: number | null,
+    onChange: (column: number | null) => void,
+    optional = false
+  ) => (
+    <div className="stack">
+      <label className="small-label">{label}</label>
+      <select
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value === "" ? null : Number(e.target.value))}
+        className="select"
+      >
+        {optional && <option value="">None</option>}
+        {preview.columns.map((column, index) => (
+          <option key={index} value={index}>
+            {column}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div
+        className="panel modal"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Import catalog"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="panel-heading">
+          Import {file.name} ({(file.size / (1024 * 1024)).toFixed(1)} MB)
+        </div>
+        <div className="controls-grid">
+          <Section title="File layout">
+            <div className="stack">
+              <label className="small-label">Format</label>
+              <select
+                value={options.format}
+                onChange={(e) =>
+                  onLayoutChange({ format: e.target.value as CatalogOptions["format"] })
+                }
+                className="select"
+              >
+                <option value="csv">CSV / text</option>
+                <option value="binary">Binary (little-endian)</option>
+              </select>
+            </div>
+            {options.format === "csv" ? (
+              <>
+                <div className="stack">
+                  <label className="small-label">Delimiter</label>
+                  <select
+                    value={options.delimiter}
+                    onChange={(e) => onLayoutChange({ delimiter: e.target.value })}
+                    className="select"
+                  >
+                    {catalogDelimiters.map((d) => (
+                      <option key={d.label} value={d.value}>
+                        {d.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="stack">
+                  <label className="small-label">First line</label>
+                  <select
+                    value={options.hasHeader ? "header" : "data"}
+                    onChange={(e) => onLayoutChange({ hasHeader: e.target.value === "header" })}
+                    className="select"
+                  >
+                    <option value="header">Column names</option>
+                    <option value="data">Data</option>
+                  </select>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="stack">
+                  <label className="small-label">Value type</label>
+                  <select
+                    value={options.binaryType}
+                    onChange={(e) =>
+                      onLayoutChange({ binaryType: e.target.value as CatalogOptions["binaryType"] })
+                    }
+                    className="select"
+                  >
+                    <option value="float32">float32</option>
+                    <option value="float64">float64</option>
+                  </select>
+                </div>
+                <NumericField
+                  label="Values per record"
+                  value={options.binaryFields}
+                  min={3}
+                  max={32}
+                  step={1}
+                  decimals={0}
+                  onChange={(v) => onLayoutChange({ binaryFields: v })}
+                />
+                <NumericField
+                  label="Header bytes"
+                  value={options.binaryHeaderBytes}
+                  min={0}
+                  max={65536}
+                  step={4}
+                  decimals={0}
+                  onChange={(v) => onLayoutChange({ binaryHeaderBytes: v })}
+                />
+              </>
+            )}
+          </Section>
+
+          <Section title="Columns">
+            {columnSelect("X", mapping.x, (c) => setMapping({ x: c ?? 0 }))}
+            {columnSelect("Y", mapping.y, (c) => setMapping({ y: c ?? 0 }))}
+            {columnSelect("Z", mapping.z, (c) => setMapping({ z: c ?? 0 }))}
+            {columnSelect(
+              "Magnitude",
+              mapping.magnitude,
+              (c) => setMapping({ magnitude: c }),
+              true
+            )}
+            {columnSelect("Color", mapping.color, (c) => setMapping({ color: c }), true)}
+            <div className="stack">
+              <label className="small-label">Color column holds</label>
+              <select
+                value={mapping.colorKind}
+                onChange={(e) => setMapping({ colorKind: e.target.value as ColorColumnKind })}
+                className="select"
+                disabled={mapping.color === null}
+              >
+                {colorColumnKinds.map((kind) => (
+                  <option key={kind.value} value={kind.value}>
+                    {kind.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </Section>
+
+          <Section title="Units">
+            <NumericField
+              label="Scene units per file unit"
+              value={options.unitScale}
+              min={0.0001}
+              max={10000}
+              step={0.01}
+              decimals={4}
+              onChange={(v) => onOptionsChange({ unitScale: v })}
+            />
+            <div className="stack">
+              <label className="small-label">Up axis</label>
+              <select
+                value={options.zUp ? "z" : "y"}
+                onChange={(e) => onOptionsChange({ zUp: e.target.value === "z" })}
+                className="select"
+              >
+                <option value="z">Z (astronomical)</option>
+                <option value="y">Y</option>
+              </select>
+            </div>
+            <div className="stack">
+              <label className="small-label">Sample radius {roundTo(sampleRadius, 3)}</label>
+              <div className="chip-row">
+                <button className="btn secondary" onClick={fitScale} disabled={sampleRadius <= 0}>
+                  Fit to scene
+                </button>
+                <button
+                  className={options.recenter ? "btn" : "btn secondary"}
+                  onClick={() => onOptionsChange({ recenter: !options.recenter })}
+                  aria-pressed={options.recenter}
+                >
+                  Recenter
+                </button>
+              </div>
+            </div>
+          </Section>
+        </div>
+
+        <div className="catalog-preview">
+          <table>
+            <thead>
+              <tr>
+                {preview.columns.map((column, index) => (
+                  <th key={index}>{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row, r) => (
+                <tr key={r}>
+                  {preview.columns.map((_, c) => (
+                    <td key={c}>{Number.isFinite(row[c]) ? roundTo(row[c], 4) : "-"}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="chip-row modal-actions">
+          <button className="btn" onClick={onImport} disabled={preview.rows.length === 0}>
+            Import
+          </button>
+          <button className="btn ghost" onClick={onClose}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function StatsOverlay({
+  renderer,
+  generationMs
+}: {
+  renderer: GalaxyRenderer;
+  generationMs: number | null;
+}) {
+  const [stats, setStats] = useState<RenderStats>(() => renderer.getStats());
+
+  useEffect(() => {
+    const timer = setInterval(() => setStats(renderer.getStats()), statsRefreshMs);
+    return () => clearInterval(timer);
+  }, [renderer]);
+
+  const rows: [string, string][] = [
+    ["FPS", stats.fps > 0 ? String(stats.fps) : "idle"],
+    [stats.gpuTimed ? "GPU frame" : "CPU frame", `${stats.frameMs.toFixed(2)} ms`],
+    ["Stars", stats.stars.toLocaleString()],
+    ["GPU buffers", formatBytes(stats.gpuBytes)],
+    ["Generation", generationMs === null ? "-" : `${(generationMs / 1000).toFixed(2)} s`]
+  ];
+  return (
+    <div className="stats-overlay">
+      {rows.map(([label, value]) => (
+        <div key={label} className="stats-row">
+          <span>{label}</span>
+          <span>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Preview strip of a gradient with a handle per stop. Clicking the strip adds a stop there;
+ * dragging a handle moves its stop, which may pass its neighbours since the stops are sorted
+ * only when the palette is built.
+ */
+function GradientEditor({
+  gradient,
+  selected,
+  onSelect,
+  onMove,
+  onAdd
+}: {
+  gradient: Gradient;
+  selected: number;
+  onSelect: (index: number) => void;
+  onMove: (index: number, position: number) => void;
+  onAdd: (position: number) => void;
+}) {
+  const stripRef = useRef<HTMLDivElement | null>(null);
+  const dragIndex = useRef<number | null>(null);
+
+  const positionAt = (clientX: number) => {
+    const rect = stripRef.current!.getBoundingClientRect();
+    return roundTo(clampNumber((clientX - rect.left) / Math.max(1, rect.width), 0, 1), 3);
+  };
+
+  return (
+    <div
+      ref={stripRef}
+      className="gradient-strip"
+      style={{ background: formatCssGradient(gradient) }}
+      onPointerDown={(e) => {
+        if (e.target === e.currentTarget) onAdd(positionAt(e.clientX));
+      }}
+    >
+      {gradient.map((stop, index) => (
+        <button
+          key={index}
+          type="button"
+          className={index === selected ? "gradient-stop active" : "gradient-stop"}
+          style={{ left: `${stop.position * 100}%`, background: colorToHex(stop.color) }}
+          aria-label={`Stop ${index + 1} at ${Math.round(stop.position * 100)}%`}
+          aria-pressed={index === selected}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            dragIndex.current = index;
+            onSelect(index);
+          }}
+          onPointerMove={(e) => {
+            if (dragIndex.current === index) onMove(index, positionAt(e.clientX));
+          }}
+          onPointerUp={() => {
+            dragIndex.current = null;
+          }}
+          onPointerCancel={() => {
+            dragIndex.current = null;
+          }}
+        />
+      ))}
     </div>
   );
 }
@@ -659,6 +3479,50 @@ function NumericField({
   );
 }
 
+function formatProgress(progress: number, elapsedMs: number) {
+  const percent = Math.floor(progress * 100);
+  if (progress <= 0 || progress >= 1) return `Generating ${percent}%`;
+  const etaSeconds = (elapsedMs / progress) * (1 - progress) / 1000;
+  return `Generating ${percent}% - ETA ${etaSeconds.toFixed(1)}s`;
+}
+
+function formatSequenceProgress(frame: number, total: number, elapsedMs: number) {
+  const done = `Frame ${frame.toLocaleString()} of ${total.toLocaleString()}`;
+  if (frame === 0) return done;
+  const remaining = Math.round(((total - frame) * elapsedMs) / frame / 1000);
+  const seconds = String(remaining % 60).padStart(2, "0");
+  return `${done} - about ${Math.floor(remaining / 60)}:${seconds} left`;
+}
+
+function formatShardReport(result: PoolResult, workers: number) {
+  const times = result.timings.map((t) => t.elapsedMs);
+  const slowest = times.length ? Math.max(...times) : 0;
+  const average = times.length ? times.reduce((a, b) => a + b, 0) / times.length : 0;
+  return (
+    `${times.length} shards on ${workers} workers | avg ${average.toFixed(0)}ms, ` +
+    `max ${slowest.toFixed(0)}ms | ${parallelSpeedup(result).toFixed(1)}x speedup`
+  );
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function slugify(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "galaxy";
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the download a moment to start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
 function clampNumber(value: number, min: number, max: number) {
   return Math.min(Math.max(value, min), max);
 }
@@ -1,35 +1,111 @@
 import { mat4, vec3 } from "gl-matrix";
 
+/** Zoom limits as multiples of the scene radius; 10-400 for the default 40-unit scene. */
+const minDistanceScale = 0.25;
+const maxDistanceScale = 10;
+const defaultSceneRadius = 40;
+
+/** Everything that places the camera; angles in radians except the vertical fov in degrees. */
+export interface CameraState {
+  yaw: number;
+  pitch: number;
+  distance: number;
+  target: [number, number, number];
+  fov: number;
+}
+
+export const pitchLimit = 1.45;
+export const fovRange = { min: 10, max: 120 };
+
 export class Camera {
   yaw = 0;
   pitch = -0.35;
   distance = 140;
   target: vec3 = vec3.fromValues(0, 0, 0);
+  fov = 60;
+  minDistance = defaultSceneRadius * minDistanceScale;
+  maxDistance = defaultSceneRadius * maxDistanceScale;
+
+  /** Rescales the zoom limits to a scene that reaches `radius` units from the origin. */
+  setSceneRadius(radius: number) {
+    const r = Math.max(1, radius);
+    this.minDistance = r * minDistanceScale;
+    this.maxDistance = r * maxDistanceScale;
+    this.distance = clamp(this.distance, this.minDistance, this.maxDistance);
+  }
 
   rotate(deltaYaw: number, deltaPitch: number) {
     this.yaw += deltaYaw;
-    this.pitch = clamp(this.pitch + deltaPitch, -1.45, 1.45);
+    this.pitch = clamp(this.pitch + deltaPitch, -pitchLimit, pitchLimit);
   }
 
   zoom(delta: number) {
-    this.distance = clamp(this.distance + delta, 10, 400);
+    this.distance = clamp(this.distance + delta, this.minDistance, this.maxDistance);
   }
 
-  getViewMatrix(): mat4 {
-    const forward = vec3.fromValues(
-      Math.cos(this.pitch) * Math.cos(this.yaw),
-      Math.sin(this.pitch),
-      Math.cos(this.pitch) * Math.sin(this.yaw)
-    );
+  /**
+   * Multiplies the distance by `factor` (within the zoom limits) and shifts the target so the
+   * point under (ndcX, ndcY) on the plane through the target stays under it.
+   */
+  zoomToward(factor: number, ndcX: number, ndcY: number, aspect: number) {
+    const before = this.distance;
+    this.distance = clamp(before * factor, this.minDistance, this.maxDistance);
+    const { right, up } = this.getBasis();
+    const halfHeight = Math.tan(deg2rad(this.fov) / 2);
+    const shift = before - this.distance;
+    vec3.scaleAndAdd(this.target, this.target, right, ndcX * halfHeight * aspect * shift);
+    vec3.scaleAndAdd(this.target, this.target, up, ndcY * halfHeight * shift);
+  }
+
+  /**
+   * Slides the target in the view plane so the point under the cursor follows it; deltas are
+   * in CSS pixels of a viewport `viewportHeight` pixels tall.
+   */
+  pan(dx: number, dy: number, viewportHeight: number) {
+    const { right, up } = this.getBasis();
+    const unitsPerPixel =
+      (2 * this.distance * Math.tan(deg2rad(this.fov) / 2)) / Math.max(1, viewportHeight);
+    vec3.scaleAndAdd(this.target, this.target, right, -dx * unitsPerPixel);
+    vec3.scaleAndAdd(this.target, this.target, up, dy * unitsPerPixel);
+  }
+
+  /** Moves eye and target together: forward along the view, right across it, up along world y. */
+  fly(forward: number, right: number, up: number) {
+    const basis = this.getBasis();
+    vec3.scaleAndAdd(this.target, this.target, basis.forward, forward);
+    vec3.scaleAndAdd(this.target, this.target, basis.right, right);
+    this.target[1] += up;
+  }
 
-    const position = vec3.scaleAndAdd(vec3.create(), this.target, forward, this.distance);
+  /** Turns the view about the eye instead of the target, first-person style. */
+  look(deltaYaw: number, deltaPitch: number) {
+    const eye = this.getPosition();
+    this.rotate(deltaYaw, deltaPitch);
+    vec3.scaleAndAdd(this.target, eye, this.getBasis().forward, this.distance);
+  }
+
+  getPosition(): vec3 {
+    return vec3.scaleAndAdd(vec3.create(), this.target, this.getOffset(), this.distance);
+  }
+
+  /** Unit view direction, screen right and screen up in world space. */
+  getBasis() {
+    const forward = vec3.negate(vec3.create(), this.getOffset());
+    const right = vec3.normalize(vec3.create(), vec3.fromValues(-forward[2], 0, forward[0]));
+    const up = vec3.cross(vec3.create(), right, forward);
+    return { forward, right, up };
+  }
+
+  getViewMatrix(): mat4 {
     const view = mat4.create();
-    return mat4.lookAt(view, position, this.target, vec3.fromValues(0, 1, 0));
+    return mat4.lookAt(view, this.getPosition(), this.target, vec3.fromValues(0, 1, 0));
   }
 
   getProjectionMatrix(aspect: number): mat4 {
     const proj = mat4.create();
-    return mat4.perspective(proj, deg2rad(60), Math.max(0.1, aspect), 0.1, 1000);
+    // The far plane grows with the zoom limit so a large scene never clips at full zoom-out
+    const far = Math.max(1000, this.maxDistance * 2.5);
+    return mat4.perspective(proj, deg2rad(this.fov), Math.max(0.1, aspect), 0.1, far);
   }
 
   getAngles() {
@@ -38,7 +114,28 @@ export class Camera {
 
   setAngles(yaw: number, pitch: number) {
     this.yaw = yaw;
-    this.pitch = clamp(pitch, -1.45, 1.45);
+    this.pitch = clamp(pitch, -pitchLimit, pitchLimit);
+  }
+
+  getState(): CameraState {
+    const { yaw, pitch, distance, fov } = this;
+    return { yaw, pitch, distance, target: [this.target[0], this.target[1], this.target[2]], fov };
+  }
+
+  setState(state: CameraState) {
+    this.setAngles(state.yaw, state.pitch);
+    this.distance = clamp(state.distance, this.minDistance, this.maxDistance);
+    vec3.set(this.target, state.target[0], state.target[1], state.target[2]);
+    this.fov = clamp(state.fov, fovRange.min, fovRange.max);
+  }
+
+  /** Unit vector from the target to the eye. */
+  private getOffset() {
+    return vec3.fromValues(
+      Math.cos(this.pitch) * Math.cos(this.yaw),
+      Math.sin(this.pitch),
+      Math.cos(this.pitch) * Math.sin(this.yaw)
+    );
   }
 }
 
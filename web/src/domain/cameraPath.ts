@@ -0,0 +1,164 @@
+import { CameraState } from "./camera";
+
+export type Easing = "linear" | "easeIn" | "easeOut" | "easeInOut";
+
+export const easings: { value: Easing; label: string }[] = [
+  { value: "linear", label: "Linear" },
+  { value: "easeIn", label: "Ease in" },
+  { value: "easeOut", label: "Ease out" },
+  { value: "easeInOut", label: "Ease in-out" }
+];
+
+export interface CameraKeyframe {
+  /** Seconds from the start of the path. */
+  time: number;
+  camera: CameraState;
+  /** Timing of the segment that leaves this keyframe. */
+  easing: Easing;
+}
+
+export interface CameraPath {
+  /** Sorted by time. */
+  keyframes: CameraKeyframe[];
+  /** Playback starts over at the end instead of stopping. */
+  loop: boolean;
+}
+
+export const emptyCameraPath: CameraPath = { keyframes: [], loop: false };
+
+const pathFileVersion = 1;
+
+export function pathDuration(path: CameraPath) {
+  const { keyframes } = path;
+  return keyframes.length > 0 ? keyframes[keyframes.length - 1].time : 0;
+}
+
+/** Inserts a keyframe in time order, replacing one already at that time. */
+export function insertKeyframe(path: CameraPath, keyframe: CameraKeyframe): CameraPath {
+  const keyframes = path.keyframes.filter((k) => k.time !== keyframe.time);
+  keyframes.push(keyframe);
+  keyframes.sort((a, b) => a.time - b.time);
+  return { ...path, keyframes };
+}
+
+export function applyEasing(easing: Easing, u: number) {
+  const t = Math.min(Math.max(u, 0), 1);
+  switch (easing) {
+    case "easeIn":
+      return t * t * t;
+    case "easeOut":
+      return 1 - Math.pow(1 - t, 3);
+    case "easeInOut":
+      return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+    default:
+      return t;
+  }
+}
+
+/**
+ * Camera at `time` along the path (clamped to its ends), or null for an empty path. Each
+ * quantity follows a Catmull-Rom spline through the keyframes, with tangents from the
+ * neighbouring keys' time spacing so uneven gaps don't overshoot. The easing reshapes time
+ * within each segment. Distance is interpolated in log space so zooms feel even; yaw is not
+ * wrapped, so a path can circle the galaxy more than once.
+ */
+export function sampleCameraPath(path: CameraPath, time: number): CameraState | null {
+  const { keyframes } = path;
+  if (keyframes.length === 0) return null;
+  if (keyframes.length === 1) return copyState(keyframes[0].camera);
+
+  const last = keyframes.length - 1;
+  const t = Math.min(Math.max(time, keyframes[0].time), keyframes[last].time);
+  let i = 0;
+  while (i < last - 1 && t >= keyframes[i + 1].time) i++;
+
+  const times = keyframes.map((k) => k.time);
+  const channels = keyframes.map((k) => toChannels(k.camera));
+  const span = times[i + 1] - times[i];
+  const u = applyEasing(keyframes[i].easing, span > 0 ? (t - times[i]) / span : 1);
+  const h00 = 2 * u * u * u - 3 * u * u + 1;
+  const h10 = u * u * u - 2 * u * u + u;
+  const h01 = -2 * u * u * u + 3 * u * u;
+  const h11 = u * u * u - u * u;
+
+  const tangent = (k: number, c: number) => {
+    const before = Math.max(0, k - 1);
+    const after = Math.min(last, k + 1);
+    const dt = times[after] - times[before];
+    return dt > 0 ? (channels[after][c] - channels[before][c]) / dt : 0;
+  };
+
+  const out = channels[i].map(
+    (p0, c) =>
+      h00 * p0 +
+      h10 * tangent(i, c) * span +
+      h01 * channels[i + 1][c] +
+      h11 * tangent(i + 1, c) * span
+  );
+  return fromChannels(out);
+}
+
+export function serializeCameraPath(path: CameraPath) {
+  return JSON.stringify({ version: pathFileVersion, ...path }, null, 2);
+}
+
+/** Reads a file written by serializeCameraPath; throws when it isn't one. */
+export function parseCameraPath(text: string): CameraPath {
+  const json: unknown = JSON.parse(text);
+  if (!isRecord(json) || !Array.isArray(json.keyframes)) {
+    throw new Error("Not a camera path file");
+  }
+  const keyframes = json.keyframes.map((entry, index): CameraKeyframe => {
+    const camera = isRecord(entry) ? entry.camera : undefined;
+    const target = isRecord(camera) ? camera.target : undefined;
+    if (
+      !isRecord(entry) ||
+      !isRecord(camera) ||
+      !isFiniteNumber(entry.time) ||
+      !["yaw", "pitch", "distance", "fov"].every((key) => isFiniteNumber(camera[key])) ||
+      !Array.isArray(target) ||
+      target.length !== 3 ||
+      !target.every(isFiniteNumber)
+    ) {
+      throw new Error(`Keyframe ${index + 1} is malformed`);
+    }
+    const easing = easings.some((e) => e.value === entry.easing)
+      ? (entry.easing as Easing)
+      : "easeInOut";
+    return {
+      time: Math.max(0, entry.time as number),
+      camera: {
+        yaw: camera.yaw as number,
+        pitch: camera.pitch as number,
+        distance: camera.distance as number,
+        target: [target[0], target[1], target[2]],
+        fov: camera.fov as number
+      },
+      easing
+    };
+  });
+  keyframes.sort((a, b) => a.time - b.time);
+  return { keyframes, loop: json.loop === true };
+}
+
+function toChannels(state: CameraState) {
+  const [x, y, z] = state.target;
+  return [state.yaw, state.pitch, Math.log(state.distance), x, y, z, state.fov];
+}
+
+function fromChannels(c: number[]): CameraState {
+  const [yaw, pitch, logDistance, x, y, z, fov] = c;
+  return { yaw, pitch, distance: Math.exp(logDistance), target: [x, y, z], fov };
+}
+
+function copyState(state: CameraState): CameraState {
+  return { ...state, target: [state.target[0], state.target[1], state.target[2]] };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
@@ -0,0 +1,321 @@
+import { ColorMode, floatsPerStar, ParticleType, StarBuffer } from "./parameters";
+import { temperatureToIndex } from "./population";
+
+export type CatalogFormat = "csv" | "binary";
+
+/** How the mapped color column is read. */
+export type ColorColumnKind = "bv" | "temperature" | "index";
+
+export const colorColumnKinds: { value: ColorColumnKind; label: string }[] = [
+  { value: "bv", label: "B-V color index" },
+  { value: "temperature", label: "Temperature (K)" },
+  { value: "index", label: "Palette position" }
+];
+
+/** Column numbers (0-based) of each quantity; null leaves the optional ones unmapped. */
+export interface ColumnMapping {
+  x: number;
+  y: number;
+  z: number;
+  magnitude: number | null;
+  color: number | null;
+  colorKind: ColorColumnKind;
+}
+
+export interface CatalogOptions {
+  format: CatalogFormat;
+  mapping: ColumnMapping;
+  /** Scene units per catalog unit. */
+  unitScale: number;
+  /** Catalog z is "up"; the scene uses y-up, so y and z are swapped (keeping handedness). */
+  zUp: boolean;
+  /** Subtracts the mean position so the catalog sits around the origin. */
+  recenter: boolean;
+  /** CSV: field separator; " " splits on any run of whitespace. */
+  delimiter: string;
+  /** CSV: the first non-comment line holds column names. */
+  hasHeader: boolean;
+  /** Binary: little-endian records of `binaryFields` values of this type. */
+  binaryType: "float32" | "float64";
+  binaryFields: number;
+  /** Binary: bytes to skip before the first record. */
+  binaryHeaderBytes: number;
+}
+
+export const defaultCatalogOptions: CatalogOptions = {
+  format: "csv",
+  mapping: { x: 0, y: 1, z: 2, magnitude: null, color: null, colorKind: "bv" },
+  unitScale: 1,
+  zUp: true,
+  recenter: false,
+  delimiter: ",",
+  hasHeader: true,
+  binaryType: "float32",
+  binaryFields: 3,
+  binaryHeaderBytes: 0
+};
+
+export interface CatalogPreview {
+  columns: string[];
+  /** First few parsed records, for the mapping dialog. */
+  rows: number[][];
+}
+
+export interface ImportedCatalog {
+  stars: StarBuffer;
+  /** "population" when colors came from B-V or temperatures, "palette" otherwise. */
+  colorMode: ColorMode;
+  /** Rows dropped because a mapped coordinate was missing or not a number. */
+  skipped: number;
+  /** Largest distance of a star from the origin, in scene units. */
+  extent: number;
+}
+
+const previewRowCount = 8;
+
+/** Picks the separator that splits the first data line into the most fields. */
+export function guessDelimiter(sample: string) {
+  const line = dataLines(sample)[0] ?? "";
+  const candidates = [",", "\t", ";", " "];
+  let best = ",";
+  let bestFields = 1;
+  for (const delimiter of candidates) {
+    const fields = splitCsvLine(line, delimiter).length;
+    if (fields > bestFields) {
+      best = delimiter;
+      bestFields = fields;
+    }
+  }
+  return best;
+}
+
+/** Whether the first data line has a field that isn't a number. */
+export function guessHeader(sample: string, delimiter: string) {
+  const line = dataLines(sample)[0];
+  if (!line) return false;
+  return splitCsvLine(line, delimiter).some((field) => !Number.isFinite(parseField(field)));
+}
+
+/** `complete` says the sample is the whole file; otherwise its cut-off last line is dropped. */
+export function previewCsv(
+  sample: string,
+  options: CatalogOptions,
+  complete = false
+): CatalogPreview {
+  const lines = dataLines(sample);
+  if (!complete && lines.length > 1) lines.pop();
+  const header = options.hasHeader ? lines.shift() : undefined;
+  const rows = lines
+    .slice(0, previewRowCount)
+    .map((line) => splitCsvLine(line, options.delimiter).map(parseField));
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  const names = header ? splitCsvLine(header, options.delimiter) : [];
+  const columns = Array.from({ length: Math.max(width, names.length) }, (_, i) =>
+    names[i] ? names[i] : `Column ${i + 1}`
+  );
+  return { columns, rows };
+}
+
+export function previewBinary(sample: ArrayBuffer, options: CatalogOptions): CatalogPreview {
+  const fields = Math.max(1, Math.floor(options.binaryFields));
+  const columns = Array.from({ length: fields }, (_, i) => `Field ${i + 1}`);
+  const view = new DataView(sample);
+  const valueBytes = options.binaryType === "float64" ? 8 : 4;
+  const recordBytes = fields * valueBytes;
+  const start = Math.max(0, Math.floor(options.binaryHeaderBytes));
+  const available = Math.floor(Math.max(0, sample.byteLength - start) / recordBytes);
+  const rows: number[][] = [];
+  for (let r = 0; r < Math.min(previewRowCount, available); r++) {
+    rows.push(readRecord(view, start + r * recordBytes, fields, options.binaryType));
+  }
+  return { columns, rows };
+}
+
+/** Unmapped optional columns default to none; coordinates default to the first three. */
+export function guessMapping(columns: string[]): ColumnMapping {
+  const find = (...names: string[]) => {
+    const index = columns.findIndex((c) => names.includes(c.trim().toLowerCase()));
+    return index >= 0 ? index : null;
+  };
+  const color = find("bv", "b-v", "b_v", "ci", "color");
+  const temperature = find("teff", "temperature", "temp", "t_eff");
+  return {
+    x: find("x") ?? 0,
+    y: find("y") ?? Math.min(1, columns.length - 1),
+    z: find("z") ?? Math.min(2, columns.length - 1),
+    magnitude: find("mag", "magnitude", "absmag", "m", "vmag", "phot_g_mean_mag"),
+    color: color ?? temperature,
+    colorKind: color === null && temperature !== null ? "temperature" : "bv"
+  };
+}
+
+/**
+ * Collects catalog records into a StarBuffer. Magnitudes and raw palette positions need the
+ * range of the whole file, so they are stored as-is and converted once in `finish`.
+ */
+export function createCatalogWriter(options: CatalogOptions, expectedRows = 0) {
+  const { mapping } = options;
+  const scale = options.unitScale;
+  let data = new Float32Array(Math.max(1024, expectedRows) * floatsPerStar);
+  let count = 0;
+  let skipped = 0;
+  let magMin = Infinity;
+  let magMax = -Infinity;
+  let indexMin = Infinity;
+  let indexMax = -Infinity;
+
+  const push = (record: ArrayLike<number>) => {
+    const x = record[mapping.x] * scale;
+    const y = record[mapping.y] * scale;
+    const z = record[mapping.z] * scale;
+    if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) {
+      skipped++;
+      return;
+    }
+    if ((count + 1) * floatsPerStar > data.length) {
+      const grown = new Float32Array(data.length * 2);
+      grown.set(data);
+      data = grown;
+    }
+    const o = count * floatsPerStar;
+    data[o] = x;
+    data[o + 1] = options.zUp ? z : y;
+    data[o + 2] = options.zUp ? -y : z;
+
+    const magnitude = mapping.magnitude === null ? NaN : record[mapping.magnitude];
+    if (Number.isFinite(magnitude)) {
+      magMin = Math.min(magMin, magnitude);
+      magMax = Math.max(magMax, magnitude);
+    }
+    data[o + 3] = magnitude;
+
+    const color = mapping.color === null ? NaN : record[mapping.color];
+    let colorIndex = 0.5;
+    if (Number.isFinite(color)) {
+      if (mapping.colorKind === "bv") colorIndex = temperatureToIndex(bvToTemperature(color));
+      else if (mapping.colorKind === "temperature") colorIndex = temperatureToIndex(color);
+      else {
+        colorIndex = color;
+        indexMin = Math.min(indexMin, color);
+        indexMax = Math.max(indexMax, color);
+      }
+    } else if (mapping.color !== null && mapping.colorKind !== "index") {
+      // Sun-like when the color is missing from this row
+      colorIndex = temperatureToIndex(5800);
+    }
+    data[o + 4] = colorIndex;
+    data[o + 5] = ParticleType.star;
+    count++;
+  };
+
+  const finish = (): ImportedCatalog => {
+    let cx = 0;
+    let cy = 0;
+    let cz = 0;
+    if (options.recenter && count > 0) {
+      for (let i = 0; i < count; i++) {
+        cx += data[i * floatsPerStar];
+        cy += data[i * floatsPerStar + 1];
+        cz += data[i * floatsPerStar + 2];
+      }
+      cx /= count;
+      cy /= count;
+      cz /= count;
+    }
+
+    const rescaleIndex = mapping.colorKind === "index" && (indexMin < 0 || indexMax > 1);
+    const indexSpan = Math.max(1e-9, indexMax - indexMin);
+    let extent = 0;
+    for (let i = 0; i < count; i++) {
+      const o = i * floatsPerStar;
+      data[o] -= cx;
+      data[o + 1] -= cy;
+      data[o + 2] -= cz;
+      extent = Math.max(extent, Math.hypot(data[o], data[o + 1], data[o + 2]));
+      data[o + 3] = magnitudeToIntensity(data[o + 3], magMin, magMax);
+      if (rescaleIndex) data[o + 4] = (data[o + 4] - indexMin) / indexSpan;
+      data[o + 4] = Math.min(Math.max(data[o + 4], 0), 1);
+    }
+
+    const colorMode: ColorMode =
+      mapping.color !== null && mapping.colorKind !== "index" ? "population" : "palette";
+    return {
+      stars: { data: data.slice(0, count * floatsPerStar), count },
+      colorMode,
+      skipped,
+      extent
+    };
+  };
+
+  return { push, finish };
+}
+
+/**
+ * Apparent brightness relative to the brightest star in the file. Uses the square root of the
+ * flux ratio so a catalog spanning ten magnitudes still shows its faint end; rows without a
+ * magnitude (or a file without the column) get a flat 1.
+ */
+export function magnitudeToIntensity(magnitude: number, min: number, max: number) {
+  if (!Number.isFinite(magnitude) || !(max > min)) return 1;
+  return Math.max(0.04, 3 * Math.pow(10, -0.2 * (magnitude - min)));
+}
+
+/** Ballesteros (2012): effective temperature of a blackbody with the given B-V color. */
+export function bvToTemperature(bv: number) {
+  const c = Math.min(Math.max(bv, -0.4), 2);
+  return 4600 * (1 / (0.92 * c + 1.7) + 1 / (0.92 * c + 0.62));
+}
+
+export function splitCsvLine(line: string, delimiter: string): string[] {
+  if (delimiter === " ") return line.trim().split(/\s+/);
+  if (!line.includes('"')) return line.split(delimiter);
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else quoted = !quoted;
+    } else if (ch === delimiter && !quoted) {
+      fields.push(field);
+      field = "";
+    } else field += ch;
+  }
+  fields.push(field);
+  return fields;
+}
+
+/** Empty fields parse as NaN rather than Number("")'s 0. */
+export function parseField(field: string) {
+  const trimmed = field.trim();
+  return trimmed === "" ? NaN : Number(trimmed);
+}
+
+/** Blank lines and "#" / "%" comment lines carry no records. */
+export function isDataLine(line: string) {
+  const trimmed = line.trim();
+  return trimmed !== "" && trimmed[0] !== "#" && trimmed[0] !== "%";
+}
+
+export function readRecord(
+  view: DataView,
+  offset: number,
+  fields: number,
+  type: CatalogOptions["binaryType"],
+  out: number[] = []
+) {
+  for (let f = 0; f < fields; f++) {
+    out[f] =
+      type === "float64"
+        ? view.getFloat64(offset + f * 8, true)
+        : view.getFloat32(offset + f * 4, true);
+  }
+  return out;
+}
+
+function dataLines(sample: string) {
+  return sample.split(/\r?\n/).filter(isDataLine);
+}
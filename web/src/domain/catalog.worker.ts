@@ -0,0 +1,126 @@
+/// <reference lib="webworker" />
+import {
+  CatalogOptions,
+  createCatalogWriter,
+  isDataLine,
+  parseField,
+  readRecord,
+  splitCsvLine
+} from "./catalog";
+import { ColorMode } from "./parameters";
+
+type Inbound =
+  | { type: "parse"; id: number; file: Blob; options: CatalogOptions }
+  | { type: "terminate" };
+
+type Outbound =
+  | { type: "progress"; id: number; loaded: number; total: number }
+  | {
+      type: "done";
+      id: number;
+      buffer: ArrayBuffer;
+      count: number;
+      colorMode: ColorMode;
+      skipped: number;
+      extent: number;
+    }
+  | { type: "error"; id: number; message: string };
+
+const ctx: DedicatedWorkerGlobalScope = self as unknown as DedicatedWorkerGlobalScope;
+
+/** Binary files are read in slices of about this many bytes (rounded to whole records). */
+const binarySliceBytes = 4 << 20;
+
+ctx.onmessage = (event: MessageEvent<Inbound>) => {
+  const msg = event.data;
+  if (msg.type === "terminate") {
+    ctx.close();
+    return;
+  }
+
+  if (msg.type !== "parse") return;
+
+  const progress = (loaded: number) => {
+    const payload: Outbound = { type: "progress", id: msg.id, loaded, total: msg.file.size };
+    ctx.postMessage(payload);
+  };
+  const parse = msg.options.format === "binary" ? parseBinary : parseCsv;
+  parse(msg.file, msg.options, progress)
+    .then((catalog) => {
+      const buffer = catalog.stars.data.buffer as ArrayBuffer;
+      const { colorMode, skipped, extent } = catalog;
+      const payload: Outbound = {
+        type: "done",
+        id: msg.id,
+        buffer,
+        count: catalog.stars.count,
+        colorMode,
+        skipped,
+        extent
+      };
+      ctx.postMessage(payload, [buffer]);
+    })
+    .catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      ctx.postMessage({ type: "error", id: msg.id, message } satisfies Outbound);
+    });
+};
+
+/** Streams the text, carrying the partial last line of each chunk over to the next. */
+async function parseCsv(file: Blob, options: CatalogOptions, progress: (loaded: number) => void) {
+  const writer = createCatalogWriter(options);
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+  let loaded = 0;
+  let headerSeen = !options.hasHeader;
+
+  const consume = (line: string) => {
+    if (!isDataLine(line)) return;
+    if (!headerSeen) {
+      headerSeen = true;
+      return;
+    }
+    writer.push(splitCsvLine(line, options.delimiter).map(parseField));
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    loaded += value.byteLength;
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split("\n");
+    pending = lines.pop() ?? "";
+    lines.forEach(consume);
+    progress(loaded);
+  }
+  consume(pending + decoder.decode());
+  return writer.finish();
+}
+
+async function parseBinary(
+  file: Blob,
+  options: CatalogOptions,
+  progress: (loaded: number) => void
+) {
+  const fields = Math.max(1, Math.floor(options.binaryFields));
+  const valueBytes = options.binaryType === "float64" ? 8 : 4;
+  const recordBytes = fields * valueBytes;
+  const start = Math.max(0, Math.floor(options.binaryHeaderBytes));
+  const records = Math.floor(Math.max(0, file.size - start) / recordBytes);
+  if (records === 0) throw new Error("File holds no complete records for this layout");
+
+  const writer = createCatalogWriter(options, records);
+  const recordsPerSlice = Math.max(1, Math.floor(binarySliceBytes / recordBytes));
+  const record: number[] = [];
+  for (let first = 0; first < records; first += recordsPerSlice) {
+    const n = Math.min(recordsPerSlice, records - first);
+    const begin = start + first * recordBytes;
+    const view = new DataView(await file.slice(begin, begin + n * recordBytes).arrayBuffer());
+    for (let r = 0; r < n; r++) {
+      writer.push(readRecord(view, r * recordBytes, fields, options.binaryType, record));
+    }
+    progress(begin + n * recordBytes);
+  }
+  return writer.finish();
+}
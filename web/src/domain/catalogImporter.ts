@@ -0,0 +1,102 @@
+import { CatalogOptions, ImportedCatalog } from "./catalog";
+import { ColorMode } from "./parameters";
+
+type WorkerMessage =
+  | { type: "progress"; id: number; loaded: number; total: number }
+  | {
+      type: "done";
+      id: number;
+      buffer: ArrayBuffer;
+      count: number;
+      colorMode: ColorMode;
+      skipped: number;
+      extent: number;
+    }
+  | { type: "error"; id: number; message: string };
+
+interface Job {
+  id: number;
+  onProgress?: (fraction: number) => void;
+  resolve: (catalog: ImportedCatalog) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Parses catalog files on a worker so multi-million-row files don't block the page. One file
+ * at a time; cancelling terminates the worker mid-read and the next import spawns a new one.
+ */
+export class CatalogImporter {
+  private worker: Worker | null = null;
+  private job: Job | null = null;
+  private nextJobId = 0;
+
+  /** Starts parsing `file`; an import still running is rejected with an AbortError. */
+  load(
+    file: Blob,
+    options: CatalogOptions,
+    onProgress?: (fraction: number) => void
+  ): Promise<ImportedCatalog> {
+    this.cancel();
+    const worker = this.ensureWorker();
+    return new Promise<ImportedCatalog>((resolve, reject) => {
+      this.job = { id: ++this.nextJobId, onProgress, resolve, reject };
+      worker.postMessage({ type: "parse", id: this.job.id, file, options });
+    });
+  }
+
+  cancel() {
+    const job = this.job;
+    if (!job) return;
+    this.job = null;
+    this.worker?.terminate();
+    this.worker = null;
+    job.reject(new DOMException("Aborted", "AbortError"));
+  }
+
+  dispose() {
+    this.cancel();
+    this.worker?.postMessage({ type: "terminate" });
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private ensureWorker() {
+    if (this.worker) return this.worker;
+    const worker = new Worker(new URL("./catalog.worker.ts", import.meta.url), {
+      type: "module"
+    });
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => this.handleMessage(event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      const job = this.job;
+      if (!job) return;
+      this.job = null;
+      job.reject(new Error(event.message || "Catalog worker failed"));
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleMessage(msg: WorkerMessage) {
+    const job = this.job;
+    if (!job || msg.id !== job.id) return;
+
+    if (msg.type === "error") {
+      this.job = null;
+      job.reject(new Error(msg.message));
+      return;
+    }
+
+    if (msg.type === "progress") {
+      job.onProgress?.(msg.total > 0 ? msg.loaded / msg.total : 1);
+      return;
+    }
+
+    this.job = null;
+    job.resolve({
+      stars: { data: new Float32Array(msg.buffer), count: msg.count },
+      colorMode: msg.colorMode,
+      skipped: msg.skipped,
+      extent: msg.extent
+    });
+  }
+}
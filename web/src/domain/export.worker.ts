@@ -0,0 +1,92 @@
+/// <reference lib="webworker" />
+import { countStars, dustCount, generateShard, planShards } from "./generator";
+import { Palette } from "./palette";
+import { GalaxyParameters } from "./parameters";
+import {
+  csvHeader,
+  emptyBounds,
+  encodeCsv,
+  encodeGltfVertices,
+  encodePly,
+  ExportOptions,
+  gltfPrefix,
+  plyHeader
+} from "./starExport";
+
+type Inbound =
+  | {
+      type: "export";
+      id: number;
+      params: GalaxyParameters;
+      options: ExportOptions;
+      palette: Palette;
+      name: string;
+    }
+  | { type: "terminate" };
+
+type Outbound =
+  | { type: "part"; id: number; buffer: ArrayBuffer }
+  | { type: "progress"; id: number; done: number; total: number }
+  | { type: "done"; id: number; count: number; elapsedMs: number }
+  | { type: "error"; id: number; message: string };
+
+const ctx: DedicatedWorkerGlobalScope = self as unknown as DedicatedWorkerGlobalScope;
+
+/**
+ * Regenerates the galaxy shard by shard (the seed makes it identical to what is on screen) and
+ * posts each encoded shard as soon as it is ready, so neither thread ever holds the whole
+ * StarBuffer. glTF needs the position bounds in its JSON header, which comes first, so its
+ * vertex parts are held here until the last shard is done.
+ */
+ctx.onmessage = (event: MessageEvent<Inbound>) => {
+  const msg = event.data;
+  if (msg.type === "terminate") {
+    ctx.close();
+    return;
+  }
+
+  if (msg.type !== "export") return;
+
+  try {
+    const started = performance.now();
+    const { params, options, palette } = msg;
+    const shards = planShards(params).filter(
+      (shard) => options.includeDust || shard.component !== "dust"
+    );
+    const count = countStars(params) - (options.includeDust ? 0 : dustCount(params));
+    if (count === 0) throw new Error("Nothing to export");
+
+    const post = (buffer: ArrayBuffer) => {
+      ctx.postMessage({ type: "part", id: msg.id, buffer } satisfies Outbound, [buffer]);
+    };
+    if (options.format === "ply") post(copyBytes(plyHeader(count)));
+    if (options.format === "csv") post(copyBytes(csvHeader()));
+
+    const held: ArrayBuffer[] = [];
+    const bounds = emptyBounds();
+    shards.forEach((shard, index) => {
+      const stars = generateShard(params, shard);
+      if (options.format === "ply") post(encodePly(stars, palette));
+      else if (options.format === "csv") post(copyBytes(encodeCsv(stars, palette)));
+      else held.push(encodeGltfVertices(stars, palette, bounds));
+      const total = shards.length;
+      ctx.postMessage({ type: "progress", id: msg.id, done: index + 1, total } satisfies Outbound);
+    });
+
+    if (options.format === "gltf") {
+      post(gltfPrefix(count, bounds, msg.name));
+      held.forEach(post);
+    }
+
+    const elapsedMs = performance.now() - started;
+    ctx.postMessage({ type: "done", id: msg.id, count, elapsedMs } satisfies Outbound);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    ctx.postMessage({ type: "error", id: msg.id, message } satisfies Outbound);
+  }
+};
+
+/** TextEncoder output may be a view into a larger buffer; transfer exactly its bytes. */
+function copyBytes(bytes: Uint8Array) {
+  return bytes.slice().buffer as ArrayBuffer;
+}
@@ -0,0 +1,109 @@
+import { Palette } from "./palette";
+import { GalaxyParameters } from "./parameters";
+import { ExportOptions, exportFormats } from "./starExport";
+
+type WorkerMessage =
+  | { type: "part"; id: number; buffer: ArrayBuffer }
+  | { type: "progress"; id: number; done: number; total: number }
+  | { type: "done"; id: number; count: number; elapsedMs: number }
+  | { type: "error"; id: number; message: string };
+
+export interface ExportResult {
+  blob: Blob;
+  count: number;
+  elapsedMs: number;
+}
+
+interface Job {
+  id: number;
+  parts: Blob[];
+  mime: string;
+  onProgress?: (fraction: number) => void;
+  resolve: (result: ExportResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Serializes galaxies on a worker. Encoded parts stream back as they are produced and are
+ * wrapped in Blobs right away, which the browser may keep out of the JS heap, so the export
+ * never needs a second copy of the StarBuffer on the main thread.
+ */
+export class GalaxyExporter {
+  private worker: Worker | null = null;
+  private job: Job | null = null;
+  private nextJobId = 0;
+
+  /** Starts an export; one still running is rejected with an AbortError. */
+  exportGalaxy(
+    params: GalaxyParameters,
+    options: ExportOptions,
+    palette: Palette,
+    name: string,
+    onProgress?: (fraction: number) => void
+  ): Promise<ExportResult> {
+    this.cancel();
+    const worker = this.ensureWorker();
+    const mime = exportFormats.find((f) => f.value === options.format)?.mime ?? "";
+    return new Promise<ExportResult>((resolve, reject) => {
+      this.job = { id: ++this.nextJobId, parts: [], mime, onProgress, resolve, reject };
+      worker.postMessage({ type: "export", id: this.job.id, params, options, palette, name });
+    });
+  }
+
+  cancel() {
+    const job = this.job;
+    if (!job) return;
+    this.job = null;
+    this.worker?.terminate();
+    this.worker = null;
+    job.reject(new DOMException("Aborted", "AbortError"));
+  }
+
+  dispose() {
+    this.cancel();
+    this.worker?.postMessage({ type: "terminate" });
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private ensureWorker() {
+    if (this.worker) return this.worker;
+    const worker = new Worker(new URL("./export.worker.ts", import.meta.url), {
+      type: "module"
+    });
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => this.handleMessage(event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      const job = this.job;
+      if (!job) return;
+      this.job = null;
+      job.reject(new Error(event.message || "Export worker failed"));
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleMessage(msg: WorkerMessage) {
+    const job = this.job;
+    if (!job || msg.id !== job.id) return;
+
+    if (msg.type === "error") {
+      this.job = null;
+      job.reject(new Error(msg.message));
+      return;
+    }
+
+    if (msg.type === "part") {
+      job.parts.push(new Blob([msg.buffer]));
+      return;
+    }
+
+    if (msg.type === "progress") {
+      job.onProgress?.(msg.done / Math.max(1, msg.total));
+      return;
+    }
+
+    this.job = null;
+    const blob = new Blob(job.parts, { type: job.mime });
+    job.resolve({ blob, count: msg.count, elapsedMs: msg.elapsedMs });
+  }
+}
@@ -1,85 +1,797 @@
-import { GalaxyParameters, StarBuffer } from "./parameters";
+import {
+  floatsPerStar,
+  GalaxyParameters,
+  ParticleType,
+  ParticleTypeId,
+  StarBuffer,
+  StarChunk
+} from "./parameters";
+import { createSimplexNoise, fbm } from "./noise";
+import { samplePopulationColor } from "./population";
+import { createStream, nextGaussian, Random, RandomStream, RandomStreamId } from "./random";
 
-function nextGaussian(rand: () => number) {
-  const u1 = 1 - rand();
-  const u2 = 1 - rand();
-  return Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
+/**
+ * Stars per shard. Every shard samples from its own substream, so the output depends on this
+ * constant but not on how many workers the shards are spread across.
+ */
+export const shardSize = 100_000;
+
+export type ComponentId =
+  | "disk"
+  | "bar"
+  | "bulge"
+  | "halo"
+  | "globular"
+  | "nuclearRing"
+  | "innerRing"
+  | "outerRing"
+  | "polarRing"
+  | "shells"
+  | "hii"
+  | "dust";
+
+/** A run of stars in the final buffer. */
+export interface StarRange {
+  offset: number;
+  count: number;
 }
 
-export async function generateStars(
-  params: GalaxyParameters,
-  signal?: AbortSignal
-): Promise<StarBuffer> {
-  const random = Math.random;
-  const stars: number[] = [];
-  const diskRadius = Math.max(1, params.diskRadius);
-  const diskEdge = diskRadius * 0.98;
-  const armCount = Math.max(1, params.armCount);
+/** A run of stars the animated rotation turns as a solid body, or leaves in place. */
+export interface RigidRange extends StarRange {
+  /** radius whose angular velocity the run turns at; null for stars that stay put */
+  patternRadius: number | null;
+}
 
-  for (let i = 0; i < params.starCount; i++) {
-    if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+/** A contiguous run of one component's stars that can be generated independently. */
+export interface StarShard {
+  index: number;
+  component: ComponentId;
+  /** shard number within its component; selects the random substream */
+  componentShard: number;
+  /** index of the shard's first star within its component */
+  start: number;
+  count: number;
+  /** index of the shard's first star in the final buffer */
+  offset: number;
+}
+
+interface GalaxyComponent {
+  id: ComponentId;
+  stream: RandomStreamId;
+  count(params: GalaxyParameters): number;
+  /** Distance from the galaxy center that (nearly) all the component's stars stay within. */
+  extent(params: GalaxyParameters): number;
+  /**
+   * false for components that don't lie in the disk plane, which the animated rotation leaves
+   * in place instead of shearing them around the disk axis; omitted means true.
+   */
+  orbits?(params: GalaxyParameters): boolean;
+  /**
+   * Radius whose angular velocity an orbiting component turns at as a solid body, for patterns
+   * like a bar that keep their shape instead of winding up; omitted means every star follows
+   * the rotation curve at its own radius.
+   */
+  patternRadius?(params: GalaxyParameters): number;
+  /**
+   * Fills `out` (count * floatsPerStar floats) in place with the component's stars
+   * start .. start + count.
+   */
+  emit(
+    params: GalaxyParameters,
+    random: Random,
+    count: number,
+    out: Float32Array,
+    start: number
+  ): void;
+}
+
+export function hasBar(params: GalaxyParameters) {
+  return params.barLength > 0 && params.barStarCount > 0;
+}
+
+/** Bar half-length as generated: kept just inside the disk. */
+function clampedBarLength(params: GalaxyParameters) {
+  return clamp(params.barLength, 0, Math.max(1, params.diskRadius) * 0.98);
+}
 
-    const armIndex = Math.floor(random() * armCount);
-    const baseRadius = diskRadius * Math.pow(random(), 1.6);
-    const armAngle = (armIndex * Math.PI * 2) / armCount;
-    const twist = params.armTwist * (baseRadius / diskRadius);
-    const angleNoise = nextGaussian(random) * params.armSpread;
-    const angle = armAngle + twist + angleNoise;
+const diskComponent: GalaxyComponent = {
+  id: "disk",
+  stream: RandomStream.disk,
+  count: (params) => params.starCount,
+  extent: (params) => Math.max(1, params.diskRadius),
+  emit(params, random, count, out) {
+    const diskRadius = Math.max(1, params.diskRadius);
+    const diskEdge = diskRadius * 0.98;
+    const armCount = Math.max(1, params.armCount);
+    const withBar = hasBar(params);
+    // With a bar the arms wind out from its ends instead of from the center.
+    const armStart = withBar ? clamp(params.barLength, 0, diskEdge) : 0;
+    const armAngleOffset = withBar ? (params.barAngle * Math.PI) / 180 : 0;
+    const armSpan = diskRadius - armStart;
+    const density = clumpDensity(params);
 
-    const radialNoise = nextGaussian(random) * params.noise * diskRadius * 0.25;
-    const radius = clamp(baseRadius + radialNoise, 0.05, diskEdge);
+    for (let i = 0; i < count; i++) {
+      let armOffset = 0;
+      let radius = 0;
+      let x = 0;
+      let y = 0;
+      let z = 0;
+      for (let attempt = 0; ; attempt++) {
+        const armIndex = Math.floor(random() * armCount);
+        const baseRadius = armStart + armSpan * Math.pow(random(), 1.6);
+        const armAngle = armAngleOffset + (armIndex * Math.PI * 2) / armCount;
+        const twist = params.armTwist * ((baseRadius - armStart) / armSpan);
+        armOffset = nextGaussian(random);
+        const angleNoise = armOffset * params.armSpread;
+        const angle = armAngle + twist + angleNoise;
 
-    const x = radius * Math.cos(angle);
-    const y = radius * Math.sin(angle);
-    const z = nextGaussian(random) * params.verticalThickness;
+        const radialNoise = nextGaussian(random) * params.noise * diskRadius * 0.25;
+        radius = clamp(baseRadius + radialNoise, 0.05, diskEdge);
 
-    const radial01 = radius / diskRadius;
-    const coreFalloff = Math.pow(Math.max(0, 1 - radial01), params.coreFalloff);
+        x = radius * Math.cos(angle);
+        y = radius * Math.sin(angle);
+        z =
+          warpHeight(params, radius, angle) +
+          nextGaussian(random) * diskThickness(params, radius);
+        if (acceptClump(density, random, attempt, x, y, z)) break;
+      }
 
-    let intensity = params.brightness * coreFalloff;
-    intensity += random() * 0.04 - 0.02;
-    intensity = clamp(intensity, 0.003, Number.MAX_VALUE);
+      const radial01 = radius / diskRadius;
+      const coreFalloff = Math.pow(Math.max(0, 1 - radial01), params.coreFalloff);
 
-    let quantized = Math.pow(intensity, 0.7);
-    quantized += (random() - 0.5) * (1 / 255);
-    const colorIndex = clamp(quantized, 0, 1);
+      let intensity = params.brightness * coreFalloff;
+      intensity += random() * 0.04 - 0.02;
+      intensity = clamp(intensity, 0.003, Number.MAX_VALUE);
 
-    stars.push(x, z, y, intensity, colorIndex);
+      let quantized = Math.pow(intensity, 0.7);
+      quantized += (random() - 0.5) * (1 / 255);
+      let colorIndex = clamp(quantized, 0, 1);
+      if (params.colorMode === "population") {
+        // Young stars crowd the arm crests; the inter-arm disk is mostly old.
+        const crest = Math.exp(-0.5 * armOffset * armOffset);
+        const youngFraction = clamp(params.starFormationRate * (0.08 + 0.4 * crest), 0, 0.95);
+        colorIndex = samplePopulationColor(random, youngFraction, params.youngAge, params.diskAge);
+      }
+
+      writeStar(out, i, x, z, y, intensity, colorIndex);
+    }
   }
+};
+
+// Bar: a Gaussian ellipsoid along the major axis, rotated to barAngle
+const barComponent: GalaxyComponent = {
+  id: "bar",
+  stream: RandomStream.bar,
+  count: (params) => (hasBar(params) ? params.barStarCount : 0),
+  extent: (params) => params.barLength,
+  patternRadius: (params) => clampedBarLength(params),
+  emit(params, random, count, out) {
+    const barLength = clampedBarLength(params);
+    const barWidth = barLength * clamp(params.barAxisRatio, 0.05, 1);
+    const barAngle = (params.barAngle * Math.PI) / 180;
+    const sigmaZ = params.verticalThickness * params.bulgeVerticalScale;
+    const cosA = Math.cos(barAngle);
+    const sinA = Math.sin(barAngle);
 
-  // Bulge
-  const bulgeRand = Math.random;
-  const bulgeRadius = Math.max(0.1, params.bulgeRadius);
-  const rMin = 0.1;
-  const invRMin = 1 / rMin;
-  const invRMax = 1 / bulgeRadius;
-  const invRange = invRMin - invRMax;
+    for (let i = 0; i < count; i++) {
+      const major = clamp(nextGaussian(random) * barLength * 0.45, -barLength, barLength);
+      const minor = clamp(nextGaussian(random) * barWidth * 0.45, -barWidth, barWidth);
+      const z = nextGaussian(random) * sigmaZ;
+      const x = major * cosA - minor * sinA;
+      const y = major * sinA + minor * cosA;
 
-  for (let i = 0; i < params.bulgeStarCount; i++) {
-    if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+      const ellipticalRadius = Math.min(1, Math.hypot(major / barLength, minor / barWidth));
+      let intensity = params.barBrightness * (1 - ellipticalRadius);
+      intensity += random() * 0.06 - 0.03;
+      intensity = clamp(intensity, 0.02, Number.MAX_VALUE);
+
+      let quantized = Math.pow(intensity, 0.6);
+      quantized += (random() - 0.5) * (1 / 255);
+      let colorIndex = clamp(quantized, 0, 1);
+      if (params.colorMode === "population") {
+        const youngFraction = clamp(params.starFormationRate * 0.05, 0, 0.95);
+        colorIndex = samplePopulationColor(random, youngFraction, params.youngAge, params.bulgeAge);
+      }
+
+      writeStar(out, i, x, z, y, intensity, colorIndex);
+    }
+  }
+};
 
-    const u = bulgeRand();
-    const invR = invRMin - u * invRange;
-    const radius = clamp(1 / invR, rMin, bulgeRadius);
-    const angle = bulgeRand() * Math.PI * 2;
+const bulgeComponent: GalaxyComponent = {
+  id: "bulge",
+  stream: RandomStream.bulge,
+  count: (params) => params.bulgeStarCount,
+  extent: (params) => Math.max(0.1, params.bulgeRadius),
+  emit(params, random, count, out) {
+    const bulgeRadius = Math.max(0.1, params.bulgeRadius);
+    const rMin = 0.1;
+    const invRMin = 1 / rMin;
+    const invRMax = 1 / bulgeRadius;
+    const invRange = invRMin - invRMax;
     const sigmaZ = params.verticalThickness * params.bulgeVerticalScale;
-    const z = nextGaussian(bulgeRand) * sigmaZ;
-    const x = radius * Math.cos(angle);
-    const y = radius * Math.sin(angle);
 
-    let intensity = params.bulgeBrightness * Math.pow(1 - radius / bulgeRadius, params.bulgeFalloff);
-    intensity += bulgeRand() * 0.08 - 0.04;
-    intensity = clamp(intensity, 0.05, Number.MAX_VALUE);
+    for (let i = 0; i < count; i++) {
+      const u = random();
+      const invR = invRMin - u * invRange;
+      const radius = clamp(1 / invR, rMin, bulgeRadius);
+      const angle = random() * Math.PI * 2;
+      const z = nextGaussian(random) * sigmaZ;
+      const x = radius * Math.cos(angle);
+      const y = radius * Math.sin(angle);
 
-    let quantized = Math.pow(intensity, 0.6);
-    quantized += (bulgeRand() - 0.5) * (1 / 255);
-    const colorIndex = clamp(quantized, 0, 1);
+      let intensity =
+        params.bulgeBrightness * Math.pow(1 - radius / bulgeRadius, params.bulgeFalloff);
+      intensity += random() * 0.08 - 0.04;
+      intensity = clamp(intensity, 0.05, Number.MAX_VALUE);
 
-    stars.push(x, z, y, intensity, colorIndex);
+      let quantized = Math.pow(intensity, 0.6);
+      quantized += (random() - 0.5) * (1 / 255);
+      let colorIndex = clamp(quantized, 0, 1);
+      if (params.colorMode === "population") {
+        const youngFraction = clamp(params.starFormationRate * 0.03, 0, 0.95);
+        colorIndex = samplePopulationColor(random, youngFraction, params.youngAge, params.bulgeAge);
+      }
+
+      writeStar(out, i, x, z, y, intensity, colorIndex);
+    }
   }
+};
+
+/** Old, metal-poor age used for halo and globular cluster stars (Gyr). */
+const haloAge = 12.5;
+
+// Halo: sparse spheroid with a power-law density profile
+const haloComponent: GalaxyComponent = {
+  id: "halo",
+  stream: RandomStream.halo,
+  count: (params) => params.haloStarCount,
+  extent: (params) => params.haloRadius,
+  orbits: () => false,
+  emit(params, random, count, out) {
+    const rMin = Math.max(0.5, params.bulgeRadius * 0.5);
+    const rMax = Math.max(rMin * 1.01, params.haloRadius);
+
+    for (let i = 0; i < count; i++) {
+      const radius = samplePowerLawRadius(random, rMin, rMax, params.haloProfile);
+      const [x, y, z] = randomDirection(random, radius);
+
+      let intensity = params.haloBrightness * Math.pow(rMin / radius, 0.5);
+      intensity += random() * 0.02 - 0.01;
+      intensity = clamp(intensity, 0.01, Number.MAX_VALUE);
+
+      let quantized = Math.pow(intensity, 0.6);
+      quantized += (random() - 0.5) * (1 / 255);
+      let colorIndex = clamp(quantized, 0, 1);
+      if (params.colorMode === "population") {
+        colorIndex = samplePopulationColor(random, 0, params.youngAge, haloAge);
+      }
+
+      writeStar(out, i, x, z, y, intensity, colorIndex);
+    }
+  }
+};
+
+// Globular clusters: Plummer spheres whose centers follow the halo profile
+const globularComponent: GalaxyComponent = {
+  id: "globular",
+  stream: RandomStream.globular,
+  count: (params) => globularStars(params) * Math.max(0, Math.floor(params.globularCount)),
+  // Cluster centers reach 0.8 haloRadius and each cluster is cut at 8 scale radii
+  extent: (params) => params.haloRadius * 0.8 + 8 * Math.max(0.05, params.globularRadius),
+  orbits: () => false,
+  emit(params, random, count, out, start) {
+    const perCluster = globularStars(params);
+    const rMin = Math.max(1, params.diskRadius * 0.15);
+    const rMax = Math.max(rMin * 1.01, params.haloRadius * 0.8);
+    const scale = Math.max(0.05, params.globularRadius);
+    let cluster = -1;
+    let center: [number, number, number] = [0, 0, 0];
+
+    for (let i = 0; i < count; i++) {
+      const clusterIndex = Math.floor((start + i) / perCluster);
+      if (clusterIndex !== cluster) {
+        cluster = clusterIndex;
+        const centerRandom = createStream(params.seed, RandomStream.globularCenters, cluster);
+        const radius = samplePowerLawRadius(centerRandom, rMin, rMax, params.haloProfile - 0.5);
+        center = randomDirection(centerRandom, radius);
+      }
+
+      // Plummer sphere via the inverse of its cumulative mass, cut at 8 scale radii
+      const u = Math.max(1e-6, random());
+      const r = Math.min(8 * scale, scale / Math.sqrt(Math.pow(u, -2 / 3) - 1));
+      const [dx, dy, dz] = randomDirection(random, r);
+
+      let intensity = params.globularBrightness * (0.6 + random() * 0.4);
+      intensity *= Math.pow(1 + (r * r) / (scale * scale), -0.5);
+      intensity = clamp(intensity, 0.02, Number.MAX_VALUE);
+
+      let quantized = Math.pow(intensity, 0.6);
+      quantized += (random() - 0.5) * (1 / 255);
+      let colorIndex = clamp(quantized, 0, 1);
+      if (params.colorMode === "population") {
+        colorIndex = samplePopulationColor(random, 0, params.youngAge, haloAge);
+      }
+
+      writeStar(out, i, center[0] + dx, center[2] + dz, center[1] + dy, intensity, colorIndex);
+    }
+  }
+};
+
+function globularStars(params: GalaxyParameters) {
+  return Math.max(1, Math.floor(params.globularStarCount));
+}
+
+/** Radius drawn from rho ~ r^-slope between rMin and rMax (inverse CDF of r^(2 - slope)). */
+function samplePowerLawRadius(random: Random, rMin: number, rMax: number, slope: number) {
+  const u = random();
+  const k = 3 - slope;
+  if (Math.abs(k) < 1e-3) return rMin * Math.pow(rMax / rMin, u);
+  const a = Math.pow(rMin, k);
+  const b = Math.pow(rMax, k);
+  return Math.pow(a + u * (b - a), 1 / k);
+}
+
+/** Uniform point on a sphere of the given radius, as [x, y, z] with z out of the disk plane. */
+function randomDirection(random: Random, radius: number): [number, number, number] {
+  const cosTheta = 2 * random() - 1;
+  const sinTheta = Math.sqrt(Math.max(0, 1 - cosTheta * cosTheta));
+  const phi = random() * Math.PI * 2;
+  return [
+    radius * sinTheta * Math.cos(phi),
+    radius * sinTheta * Math.sin(phi),
+    radius * cosTheta
+  ];
+}
+
+interface RingShape {
+  starCount: number;
+  radius: number;
+  width: number;
+  inclination: number;
+}
+
+// Rings: young stars in a Gaussian annulus, tilted about the disk's x axis. Nuclear, inner,
+// outer and polar rings differ only in their parameters.
+function ringComponent(
+  id: ComponentId,
+  stream: RandomStreamId,
+  shape: (params: GalaxyParameters) => RingShape
+): GalaxyComponent {
+  return {
+    id,
+    stream,
+    count: (params) => Math.max(0, Math.floor(shape(params).starCount)),
+    extent: (params) => shape(params).radius + 3 * Math.max(0.05, shape(params).width),
+    // Only a ring lying in the disk plane shares its rotation
+    orbits: (params) => Math.abs(Math.sin((shape(params).inclination * Math.PI) / 180)) < 1e-3,
+    emit(params, random, count, out) {
+      const { radius, width, inclination } = shape(params);
+      const tilt = (inclination * Math.PI) / 180;
+      const cosTilt = Math.cos(tilt);
+      const sinTilt = Math.sin(tilt);
+      const sigma = Math.max(0.05, width);
+      const youngFraction = clamp(params.starFormationRate * 0.6, 0, 0.95);
+
+      for (let i = 0; i < count; i++) {
+        const angle = random() * Math.PI * 2;
+        const r = Math.max(0.05, radius + nextGaussian(random) * sigma);
+        const x = r * Math.cos(angle);
+        const inPlane = r * Math.sin(angle);
+        const height = nextGaussian(random) * sigma * 0.3;
+        const y = inPlane * cosTilt - height * sinTilt;
+        const z = inPlane * sinTilt + height * cosTilt;
+
+        let intensity = params.brightness * (0.6 + random() * 0.6);
+        intensity = clamp(intensity, 0.003, Number.MAX_VALUE);
+        let colorIndex = clamp(0.62 + nextGaussian(random) * 0.12, 0, 1);
+        if (params.colorMode === "population") {
+          const { youngAge, diskAge } = params;
+          colorIndex = samplePopulationColor(random, youngFraction, youngAge, diskAge);
+        }
+
+        writeStar(out, i, x, z, y, intensity, colorIndex);
+      }
+    }
+  };
+}
+
+const nuclearRingComponent = ringComponent("nuclearRing", RandomStream.nuclearRing, (p) => ({
+  starCount: p.nuclearRingStarCount,
+  radius: p.nuclearRingRadius,
+  width: p.nuclearRingWidth,
+  inclination: p.nuclearRingInclination
+}));
+
+const innerRingComponent = ringComponent("innerRing", RandomStream.innerRing, (p) => ({
+  starCount: p.innerRingStarCount,
+  radius: p.innerRingRadius,
+  width: p.innerRingWidth,
+  inclination: p.innerRingInclination
+}));
+
+const outerRingComponent = ringComponent("outerRing", RandomStream.outerRing, (p) => ({
+  starCount: p.outerRingStarCount,
+  radius: p.outerRingRadius,
+  width: p.outerRingWidth,
+  inclination: p.outerRingInclination
+}));
+
+const polarRingComponent = ringComponent("polarRing", RandomStream.polarRing, (p) => ({
+  starCount: p.polarRingStarCount,
+  radius: p.polarRingRadius,
+  width: p.polarRingWidth,
+  inclination: p.polarRingInclination
+}));
+
+/** Half-angle of the cap each shell covers around the shell axis. */
+const shellOpening = (65 * Math.PI) / 180;
+
+// Shells: concentric caps of old stars with sharp outer edges, alternating sides of an axis,
+// as left by a radial minor merger around an elliptical
+const shellComponent: GalaxyComponent = {
+  id: "shells",
+  stream: RandomStream.shells,
+  count: (params) => (params.shellCount >= 1 ? Math.max(0, Math.floor(params.shellStarCount)) : 0),
+  extent: (params) => Math.max(1, params.shellRadius),
+  orbits: () => false,
+  emit(params, random, count, out) {
+    const shells = Math.max(1, Math.floor(params.shellCount));
+    const outer = Math.max(1, params.shellRadius);
+    const width = Math.max(0.05, params.shellWidth);
+    const tilt = (params.shellInclination * Math.PI) / 180;
+    // The shell axis lies in the x-z (up) plane; its normal there and the y axis complete it.
+    const axisX = Math.cos(tilt);
+    const axisZ = Math.sin(tilt);
+    const cosOpening = Math.cos(shellOpening);
+
+    for (let i = 0; i < count; i++) {
+      const shell = Math.floor(random() * shells);
+      // Geometric spacing, each shell ~1.4x the one inside it, outermost at shellRadius
+      const shellRadius = outer * Math.pow(0.7, shells - 1 - shell);
+      const direction = shell % 2 === 0 ? 1 : -1;
+      const r = Math.max(0.1, shellRadius - Math.abs(nextGaussian(random)) * width);
+      const cosTheta = cosOpening + (1 - cosOpening) * random();
+      const sinTheta = Math.sqrt(1 - cosTheta * cosTheta);
+      const phi = random() * Math.PI * 2;
+      const a = r * cosTheta * direction;
+      const b = r * sinTheta * Math.cos(phi);
+      const c = r * sinTheta * Math.sin(phi);
+      const x = axisX * a - axisZ * c;
+      const y = b;
+      const z = axisZ * a + axisX * c;
+
+      // Brightest just inside the edge, like the caustic it is
+      const edge = Math.exp(-(shellRadius - r) / width);
+      let intensity = params.brightness * (0.3 + 0.5 * edge);
+      intensity = clamp(intensity, 0.003, Number.MAX_VALUE);
+      let colorIndex = clamp(0.2 + random() * 0.15, 0, 1);
+      if (params.colorMode === "population") {
+        colorIndex = samplePopulationColor(random, 0, params.youngAge, params.bulgeAge);
+      }
+
+      writeStar(out, i, x, z, y, intensity, colorIndex);
+    }
+  }
+};
+
+/** Particles per HII knot; divides shardSize so shards always hold whole knots. */
+const particlesPerKnot = 32;
+
+// HII regions: compact knots of emission particles sitting on the arm crests
+const hiiComponent: GalaxyComponent = {
+  id: "hii",
+  stream: RandomStream.hii,
+  count: (params) => Math.max(0, Math.floor(params.hiiRegionCount)) * particlesPerKnot,
+  extent: (params) => Math.max(1, params.diskRadius) + 3 * Math.max(0.05, params.hiiClumpSize),
+  emit(params, random, count, out) {
+    const diskRadius = Math.max(1, params.diskRadius);
+    const diskEdge = diskRadius * 0.98;
+    const armCount = Math.max(1, params.armCount);
+    const withBar = hasBar(params);
+    const armStart = withBar ? clamp(params.barLength, 0, diskEdge) : 0;
+    const armAngleOffset = withBar ? (params.barAngle * Math.PI) / 180 : 0;
+    const armSpan = diskRadius - armStart;
+    const clumpSize = Math.max(0.05, params.hiiClumpSize);
+    const density = clumpDensity(params);
+
+    for (let knot = 0; knot < count / particlesPerKnot; knot++) {
+      let cx = 0;
+      let cy = 0;
+      let cz = 0;
+      // Knots follow the clump field too, so star formation lights up the dense patches.
+      for (let attempt = 0; ; attempt++) {
+        const armIndex = Math.floor(random() * armCount);
+        const radius = clamp(armStart + armSpan * (0.1 + 0.8 * random()), 0.05, diskEdge);
+        const armAngle = armAngleOffset + (armIndex * Math.PI * 2) / armCount;
+        const twist = params.armTwist * ((radius - armStart) / armSpan);
+        const angle = armAngle + twist + nextGaussian(random) * params.armSpread * 0.3;
+        cx = radius * Math.cos(angle);
+        cy = radius * Math.sin(angle);
+        cz =
+          warpHeight(params, radius, angle) +
+          nextGaussian(random) * diskThickness(params, radius) * 0.3;
+        if (acceptClump(density, random, attempt, cx, cy, cz)) break;
+      }
+      // Most knots glow H-alpha pink; a minority are OIII-dominated teal.
+      const mix = random() < 0.7 ? random() * 0.3 : 0.7 + random() * 0.3;
+      const knotBrightness = params.hiiBrightness * (0.5 + random());
+
+      for (let p = 0; p < particlesPerKnot; p++) {
+        const dx = nextGaussian(random) * clumpSize;
+        const dy = nextGaussian(random) * clumpSize;
+        const dz = nextGaussian(random) * clumpSize * 0.5;
+        const d2 = (dx * dx + dy * dy + dz * dz) / (clumpSize * clumpSize);
+        const intensity = clamp(knotBrightness * Math.exp(-0.5 * d2), 0.01, Number.MAX_VALUE);
+        const colorIndex = clamp(mix + (random() - 0.5) * 0.1, 0, 1);
+        writeStar(
+          out,
+          knot * particlesPerKnot + p,
+          cx + dx,
+          cz + dz,
+          cy + dy,
+          intensity,
+          colorIndex,
+          ParticleType.nebula
+        );
+      }
+    }
+  }
+};
+
+// Dust: absorbing particles hugging the inner (concave) edge of each arm. The intensity slot
+// holds the particle's opacity; the renderer draws this range with an absorbing blend.
+const dustComponent: GalaxyComponent = {
+  id: "dust",
+  stream: RandomStream.dust,
+  count: (params) => dustCount(params),
+  extent: (params) => Math.max(1, params.diskRadius),
+  emit(params, random, count, out) {
+    const diskRadius = Math.max(1, params.diskRadius);
+    const diskEdge = diskRadius * 0.98;
+    const armCount = Math.max(1, params.armCount);
+    const withBar = hasBar(params);
+    const armStart = withBar ? clamp(params.barLength, 0, diskEdge) : 0;
+    const armAngleOffset = withBar ? (params.barAngle * Math.PI) / 180 : 0;
+    const armSpan = diskRadius - armStart;
+    // Ahead of the arm in angle means inside it in radius for trailing arms.
+    const laneOffset = params.armTwist >= 0 ? params.armSpread * 0.6 : -params.armSpread * 0.6;
+    const density = clumpDensity(params);
+
+    for (let i = 0; i < count; i++) {
+      let radius = 0;
+      let x = 0;
+      let y = 0;
+      let z = 0;
+      for (let attempt = 0; ; attempt++) {
+        const armIndex = Math.floor(random() * armCount);
+        radius = clamp(armStart + armSpan * Math.pow(random(), 1.2), 0.05, diskEdge);
+        const armAngle = armAngleOffset + (armIndex * Math.PI * 2) / armCount;
+        const twist = params.armTwist * ((radius - armStart) / armSpan);
+        const angle = armAngle + twist + laneOffset + nextGaussian(random) * params.dustWidth;
+
+        x = radius * Math.cos(angle);
+        y = radius * Math.sin(angle);
+        z =
+          warpHeight(params, radius, angle) +
+          nextGaussian(random) * diskThickness(params, radius) * 0.35;
+        if (acceptClump(density, random, attempt, x, y, z)) break;
+      }
+
+      const fade = Math.sqrt(Math.max(0, 1 - radius / diskRadius));
+      const opacity = clamp(params.dustOpacity * fade * (0.6 + random() * 0.4), 0, 1);
+
+      writeStar(out, i, x, z, y, opacity, 0, ParticleType.dust);
+    }
+  }
+};
+
+/**
+ * Output order of the components in the final buffer. Absorbing components stay last so the
+ * additive stars form one contiguous range in front of them.
+ */
+const components: GalaxyComponent[] = [
+  diskComponent,
+  barComponent,
+  bulgeComponent,
+  haloComponent,
+  globularComponent,
+  nuclearRingComponent,
+  innerRingComponent,
+  outerRingComponent,
+  polarRingComponent,
+  shellComponent,
+  hiiComponent,
+  dustComponent
+];
+
+export function dustCount(params: GalaxyParameters) {
+  return params.dustOpacity > 0 ? Math.floor(params.starCount * params.dustDensity) : 0;
+}
+
+/** Where a component's stars land in the final buffer. */
+export function componentRange(params: GalaxyParameters, id: ComponentId): StarRange {
+  let offset = 0;
+  for (const component of components) {
+    const count = component.count(params);
+    if (component.id === id) return { offset, count };
+    offset += count;
+  }
+  return { offset, count: 0 };
+}
+
+/**
+ * Where the stars that don't follow the rotation curve at their own radius land in the final
+ * buffer: components off the disk plane (halo, globular clusters, shells, tilted rings) with
+ * a null pattern radius, and solid-body patterns (the bar) with the radius whose angular
+ * velocity they turn at. Neighbouring ranges that move alike are merged.
+ */
+export function rigidRanges(params: GalaxyParameters): RigidRange[] {
+  const ranges: RigidRange[] = [];
+  let offset = 0;
+  for (const component of components) {
+    const count = component.count(params);
+    const patternRadius =
+      component.orbits?.(params) === false ? null : component.patternRadius?.(params);
+    if (count > 0 && patternRadius !== undefined) {
+      const last = ranges[ranges.length - 1];
+      if (last && last.offset + last.count === offset && last.patternRadius === patternRadius) {
+        last.count += count;
+      } else {
+        ranges.push({ offset, count, patternRadius });
+      }
+    }
+    offset += count;
+  }
+  return ranges;
+}
+
+/** Radius around the galaxy center, in galaxy units, that holds every enabled component. */
+export function galaxyExtent(params: GalaxyParameters) {
+  return components.reduce(
+    (extent, component) =>
+      component.count(params) > 0 ? Math.max(extent, component.extent(params)) : extent,
+    0
+  );
+}
+
+/** Total stars generateStars will emit for these parameters. */
+export function countStars(params: GalaxyParameters) {
+  return components.reduce((sum, component) => sum + component.count(params), 0);
+}
+
+/** Splits every component into shards of at most shardSize stars, in final buffer order. */
+export function planShards(params: GalaxyParameters): StarShard[] {
+  const shards: StarShard[] = [];
+  let offset = 0;
+  for (const component of components) {
+    const total = component.count(params);
+    for (let start = 0, componentShard = 0; start < total; start += shardSize, componentShard++) {
+      const count = Math.min(shardSize, total - start);
+      shards.push({
+        index: shards.length,
+        component: component.id,
+        componentShard,
+        start,
+        count,
+        offset
+      });
+      offset += count;
+    }
+  }
+  return shards;
+}
+
+/** Generates one shard, writing into `out` when given (e.g. a view into the final buffer). */
+export function generateShard(
+  params: GalaxyParameters,
+  shard: StarShard,
+  out = new Float32Array(shard.count * floatsPerStar)
+): StarBuffer {
+  const component = components.find((c) => c.id === shard.component);
+  if (!component) throw new Error(`Unknown galaxy component: ${shard.component}`);
+  const random = createStream(params.seed, component.stream, shard.componentShard);
+  component.emit(params, random, shard.count, out, shard.start);
+  return { data: out, count: shard.count };
+}
+
+/**
+ * Generates the full galaxy shard by shard. When onChunk is given, each finished shard is also
+ * handed out, yielding to the event loop in between so workers stay responsive.
+ */
+export async function generateStars(
+  params: GalaxyParameters,
+  signal?: AbortSignal,
+  onChunk?: (chunk: StarChunk) => void
+): Promise<StarBuffer> {
+  const total = countStars(params);
+  const data = new Float32Array(total * floatsPerStar);
+
+  for (const shard of planShards(params)) {
+    if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+
+    const start = shard.offset * floatsPerStar;
+    const view = data.subarray(start, start + shard.count * floatsPerStar);
+    const stars = generateShard(params, shard, view);
+    if (onChunk) {
+      onChunk({ data: stars.data, offset: shard.offset, count: stars.count, total });
+      await yieldToEventLoop();
+    }
+  }
+
+  return { data, count: total };
+}
+
+type DensityField = (x: number, y: number, z: number) => number;
+
+/** Rejection tries per star before the clump field gives up and keeps the last position. */
+const maxClumpAttempts = 64;
+
+/**
+ * Acceptance probability in (0, 1] from the seeded fBm clump field, or null when it is off.
+ * Built from the galaxy seed, so every shard and component sees the same field.
+ */
+function clumpDensity(params: GalaxyParameters): DensityField | null {
+  const octaves = Math.min(8, Math.floor(params.noiseOctaves));
+  if (octaves < 1 || params.noiseContrast <= 0) return null;
+  const noise = createSimplexNoise(createStream(params.seed, RandomStream.noiseField));
+  const scale = params.noiseFrequency / Math.max(1, params.diskRadius);
+  const contrast = params.noiseContrast;
+  return (x, y, z) =>
+    Math.exp(contrast * (fbm(noise, x * scale, y * scale, z * scale, octaves) - 1));
+}
+
+/** Draws only when the field is on, so galaxies without it keep their exact random sequence. */
+function acceptClump(
+  density: DensityField | null,
+  random: Random,
+  attempt: number,
+  x: number,
+  y: number,
+  z: number
+) {
+  return !density || attempt >= maxClumpAttempts || random() < density(x, y, z);
+}
+
+/** Gaussian sigma of the disk at a radius, flaring quadratically toward the edge. */
+function diskThickness(params: GalaxyParameters, radius: number) {
+  const t = radius / Math.max(1, params.diskRadius);
+  return params.verticalThickness * (1 + Math.max(0, params.diskFlare) * t * t);
+}
+
+/**
+ * Midplane height of an integral-sign warp: flat inside warpStart, then bending up on one side
+ * of the line of nodes and down on the other, growing quadratically to warpAmplitude at the edge.
+ */
+function warpHeight(params: GalaxyParameters, radius: number, angle: number) {
+  const diskRadius = Math.max(1, params.diskRadius);
+  const start = clamp(params.warpStart, 0, 0.95) * diskRadius;
+  if (params.warpAmplitude === 0 || radius <= start) return 0;
+  const t = Math.min(1, (radius - start) / (diskRadius - start));
+  return params.warpAmplitude * t * t * Math.sin(angle - (params.warpAngle * Math.PI) / 180);
+}
+
+function writeStar(
+  out: Float32Array,
+  index: number,
+  x: number,
+  y: number,
+  z: number,
+  intensity: number,
+  colorIndex: number,
+  type: ParticleTypeId = ParticleType.star
+) {
+  const o = index * floatsPerStar;
+  out[o] = x;
+  out[o + 1] = y;
+  out[o + 2] = z;
+  out[o + 3] = intensity;
+  out[o + 4] = colorIndex;
+  out[o + 5] = type;
+}
 
-  const data = new Float32Array(stars);
-  return { data, count: data.length / 5 };
+function yieldToEventLoop() {
+  return new Promise<void>((resolve) => setTimeout(resolve, 0));
 }
 
 function clamp(v: number, min: number, max: number) {
@@ -1,30 +1,32 @@
 /// <reference lib="webworker" />
-import { generateStars } from "./generator";
+import { generateShard, StarShard } from "./generator";
 import { GalaxyParameters } from "./parameters";
 
 type Inbound =
-  | { type: "generate"; id: number; params: GalaxyParameters }
+  | { type: "shard"; id: number; params: GalaxyParameters; shard: StarShard }
   | { type: "terminate" };
 
 type Outbound =
-  | { type: "result"; id: number; count: number; buffer: ArrayBuffer }
+  | { type: "shard"; id: number; shard: StarShard; buffer: ArrayBuffer; elapsedMs: number }
   | { type: "error"; id: number; message: string };
 
 const ctx: DedicatedWorkerGlobalScope = self as unknown as DedicatedWorkerGlobalScope;
 
-ctx.onmessage = async (event: MessageEvent<Inbound>) => {
+ctx.onmessage = (event: MessageEvent<Inbound>) => {
   const msg = event.data;
   if (msg.type === "terminate") {
     ctx.close();
     return;
   }
 
-  if (msg.type !== "generate") return;
+  if (msg.type !== "shard") return;
 
   try {
-    const stars = await generateStars(msg.params);
-    const buffer = stars.data.buffer;
-    const payload: Outbound = { type: "result", id: msg.id, count: stars.count, buffer };
+    const started = performance.now();
+    const stars = generateShard(msg.params, msg.shard);
+    const elapsedMs = performance.now() - started;
+    const buffer = stars.data.buffer as ArrayBuffer;
+    const payload: Outbound = { type: "shard", id: msg.id, shard: msg.shard, buffer, elapsedMs };
     ctx.postMessage(payload, [buffer]);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,215 @@
+import { countStars, planShards, ComponentId, StarShard } from "./generator";
+import { floatsPerStar, GalaxyParameters, StarBuffer, StarChunk } from "./parameters";
+
+type WorkerMessage =
+  | { type: "shard"; id: number; shard: StarShard; buffer: ArrayBuffer; elapsedMs: number }
+  | { type: "error"; id: number; message: string };
+
+export interface ShardTiming {
+  index: number;
+  component: ComponentId;
+  count: number;
+  worker: number;
+  elapsedMs: number;
+}
+
+export interface PoolResult {
+  stars: StarBuffer;
+  elapsedMs: number;
+  timings: ShardTiming[];
+}
+
+interface PoolWorker {
+  index: number;
+  worker: Worker;
+  /** shard in flight, if any */
+  shard: StarShard | null;
+  jobId: number;
+}
+
+interface Job {
+  id: number;
+  /** caller's name for the job; a new job with the same key replaces it */
+  key: string;
+  params: GalaxyParameters;
+  queue: StarShard[];
+  remaining: number;
+  data: Float32Array;
+  total: number;
+  started: number;
+  timings: ShardTiming[];
+  onChunk?: (chunk: StarChunk) => void;
+  resolve: (result: PoolResult) => void;
+  reject: (error: Error) => void;
+}
+
+export function defaultPoolSize() {
+  return Math.max(1, (typeof navigator !== "undefined" && navigator.hardwareConcurrency) || 4);
+}
+
+/**
+ * Spreads a galaxy's shards across a set of generator workers and stitches the transferred
+ * buffers back together. Output is identical for any pool size because shards own their seeds.
+ * Jobs under different keys (one per galaxy in a scene) share the workers in FIFO order.
+ */
+export class GeneratorPool {
+  private workers: PoolWorker[] = [];
+  private jobs: Job[] = [];
+  private nextJobId = 0;
+
+  constructor(size = defaultPoolSize()) {
+    this.resize(size);
+  }
+
+  get size() {
+    return this.workers.length;
+  }
+
+  resize(size: number) {
+    const target = Math.max(1, Math.floor(size));
+    while (this.workers.length < target) this.workers.push(this.spawn(this.workers.length));
+    while (this.workers.length > target) {
+      const entry = this.workers.pop()!;
+      entry.worker.terminate();
+      // Hand an interrupted shard back to the queue so the job still completes.
+      const job = this.findJob(entry.jobId);
+      if (entry.shard && job) job.queue.unshift(entry.shard);
+    }
+    this.pump();
+  }
+
+  /**
+   * Starts a new generation; a job still running under the same key is rejected with an
+   * AbortError.
+   */
+  generate(
+    key: string,
+    params: GalaxyParameters,
+    onChunk?: (chunk: StarChunk) => void
+  ): Promise<PoolResult> {
+    this.cancel(key);
+    const total = countStars(params);
+    return new Promise<PoolResult>((resolve, reject) => {
+      const queue = planShards(params);
+      const job: Job = {
+        id: ++this.nextJobId,
+        key,
+        params,
+        queue,
+        remaining: queue.length,
+        data: new Float32Array(total * floatsPerStar),
+        total,
+        started: performance.now(),
+        timings: [],
+        onChunk,
+        resolve,
+        reject
+      };
+      if (queue.length === 0) {
+        this.finish(job);
+        return;
+      }
+      this.jobs.push(job);
+      this.pump();
+    });
+  }
+
+  /** Rejects the job under `key`, or every job when no key is given, with an AbortError. */
+  cancel(key?: string) {
+    const cancelled = this.jobs.filter((job) => key === undefined || job.key === key);
+    if (cancelled.length === 0) return;
+    this.jobs = this.jobs.filter((job) => !cancelled.includes(job));
+    for (const job of cancelled) job.reject(new DOMException("Aborted", "AbortError"));
+  }
+
+  dispose() {
+    this.cancel();
+    for (const entry of this.workers) {
+      entry.worker.postMessage({ type: "terminate" });
+      entry.worker.terminate();
+    }
+    this.workers = [];
+  }
+
+  private spawn(index: number): PoolWorker {
+    const worker = new Worker(new URL("./generator.worker.ts", import.meta.url), {
+      type: "module"
+    });
+    const entry: PoolWorker = { index, worker, shard: null, jobId: 0 };
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      entry.shard = null;
+      this.handleMessage(event.data, entry.index);
+      this.pump();
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      entry.shard = null;
+      const job = this.findJob(entry.jobId);
+      if (!job) return;
+      this.remove(job);
+      job.reject(new Error(event.message || "Generator worker failed"));
+    };
+    return entry;
+  }
+
+  private handleMessage(msg: WorkerMessage, workerIndex: number) {
+    const job = this.findJob(msg.id);
+    if (!job) return;
+
+    if (msg.type === "error") {
+      this.remove(job);
+      job.reject(new Error(msg.message));
+      return;
+    }
+
+    const { shard } = msg;
+    const data = new Float32Array(msg.buffer);
+    job.data.set(data, shard.offset * floatsPerStar);
+    job.timings.push({
+      index: shard.index,
+      component: shard.component,
+      count: shard.count,
+      worker: workerIndex,
+      elapsedMs: msg.elapsedMs
+    });
+    job.onChunk?.({ data, offset: shard.offset, count: shard.count, total: job.total });
+
+    job.remaining--;
+    if (job.remaining === 0) this.finish(job);
+  }
+
+  private finish(job: Job) {
+    this.remove(job);
+    job.timings.sort((a, b) => a.index - b.index);
+    job.resolve({
+      stars: { data: job.data, count: job.total },
+      elapsedMs: performance.now() - job.started,
+      timings: job.timings
+    });
+  }
+
+  private pump() {
+    for (const entry of this.workers) {
+      if (entry.shard) continue;
+      const job = this.jobs.find((candidate) => candidate.queue.length > 0);
+      if (!job) return;
+      const shard = job.queue.shift()!;
+      entry.shard = shard;
+      entry.jobId = job.id;
+      entry.worker.postMessage({ type: "shard", id: job.id, params: job.params, shard });
+    }
+  }
+
+  private findJob(id: number) {
+    return this.jobs.find((job) => job.id === id);
+  }
+
+  private remove(job: Job) {
+    this.jobs = this.jobs.filter((candidate) => candidate !== job);
+  }
+}
+
+/** Sum of per-shard worker time over wall time; ~1 on a single worker. */
+export function parallelSpeedup(result: PoolResult) {
+  const workerMs = result.timings.reduce((sum, t) => sum + t.elapsedMs, 0);
+  return workerMs / Math.max(1e-3, result.elapsedMs);
+}
@@ -0,0 +1,398 @@
+import { Gradient, PaletteStop, sortStops } from "./palette";
+
+export type GradientFormat = "json" | "ggr" | "css";
+
+export const gradientFormats: { value: GradientFormat; label: string; extension: string }[] = [
+  { value: "json", label: "JSON", extension: "json" },
+  { value: "ggr", label: "GIMP gradient (.ggr)", extension: "ggr" },
+  { value: "css", label: "CSS linear-gradient", extension: "css" }
+];
+
+export interface NamedGradient {
+  name: string;
+  gradient: Gradient;
+}
+
+type Color = [number, number, number];
+
+const gradientFileVersion = 1;
+
+/** Points sampled from a GIMP segment that isn't a plain linear RGB ramp. */
+const ggrSamplesPerSegment = 16;
+
+/** CSS named colors accepted in gradients; the rest of the list is rare in practice. */
+const namedColors: Record<string, string> = {
+  black: "#000000",
+  white: "#ffffff",
+  gray: "#808080",
+  grey: "#808080",
+  silver: "#c0c0c0",
+  red: "#ff0000",
+  maroon: "#800000",
+  orange: "#ffa500",
+  gold: "#ffd700",
+  yellow: "#ffff00",
+  olive: "#808000",
+  lime: "#00ff00",
+  green: "#008000",
+  teal: "#008080",
+  cyan: "#00ffff",
+  aqua: "#00ffff",
+  blue: "#0000ff",
+  navy: "#000080",
+  purple: "#800080",
+  magenta: "#ff00ff",
+  fuchsia: "#ff00ff",
+  pink: "#ffc0cb",
+  indigo: "#4b0082",
+  violet: "#ee82ee"
+};
+
+export function formatGradient(format: GradientFormat, { name, gradient }: NamedGradient) {
+  if (format === "ggr") return formatGgr(name, gradient);
+  if (format === "css") return `${formatCssGradient(gradient)};\n`;
+  const stops = sortStops(gradient).map((stop) => ({
+    position: round(stop.position),
+    color: stop.color.map(round)
+  }));
+  return JSON.stringify({ version: gradientFileVersion, name, stops }, null, 2);
+}
+
+/**
+ * Reads a gradient written by formatGradient or another tool, telling the formats apart by
+ * content: a GIMP .ggr file, a JSON palette, or text holding a CSS gradient. Throws with a
+ * reason when nothing usable is found. `fallbackName` names gradients that carry no name.
+ */
+export function parseGradient(text: string, fallbackName: string): NamedGradient {
+  const trimmed = text.trim();
+  let result: NamedGradient;
+  if (trimmed.startsWith("GIMP Gradient")) result = parseGgr(trimmed, fallbackName);
+  else if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    result = parseGradientJson(trimmed, fallbackName);
+  } else if (/gradient\s*\(/i.test(trimmed)) {
+    result = { name: fallbackName, gradient: parseCssGradient(trimmed) };
+  } else throw new Error("Not a JSON, GIMP or CSS gradient");
+  if (result.gradient.length === 0) throw new Error("Gradient has no color stops");
+  return { name: result.name, gradient: sortStops(result.gradient) };
+}
+
+/** A linear-gradient running left to right, with every stop positioned. */
+export function formatCssGradient(gradient: Gradient) {
+  const stops = sortStops(gradient).map(
+    (stop) => `${colorToHex(stop.color)} ${round(stop.position * 100, 2)}%`
+  );
+  return `linear-gradient(90deg, ${stops.join(", ")})`;
+}
+
+/** #rrggbb for a 0..1 color; channels beyond the range are clipped. */
+export function colorToHex(color: readonly number[]) {
+  const channel = (v: number) =>
+    Math.round(Math.min(Math.max(v, 0), 1) * 255)
+      .toString(16)
+      .padStart(2, "0");
+  return `#${channel(color[0])}${channel(color[1])}${channel(color[2])}`;
+}
+
+/** Reads #rgb, #rgba, #rrggbb or #rrggbbaa (alpha ignored); null when malformed. */
+export function hexToColor(hex: string): Color | null {
+  const digits = hex.trim().replace(/^#/, "");
+  if (!/^[0-9a-f]+$/i.test(digits)) return null;
+  if (digits.length === 3 || digits.length === 4) {
+    return [0, 1, 2].map((i) => parseInt(digits[i] + digits[i], 16) / 255) as Color;
+  }
+  if (digits.length === 6 || digits.length === 8) {
+    return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16) / 255) as Color;
+  }
+  return null;
+}
+
+function parseGradientJson(text: string, fallbackName: string): NamedGradient {
+  const json: unknown = JSON.parse(text);
+  const entries = Array.isArray(json) ? json : isRecord(json) ? json.stops : undefined;
+  if (!Array.isArray(entries)) throw new Error("Not a gradient file");
+  const gradient = entries.map((entry, index): PaletteStop => {
+    const color = isRecord(entry) ? readJsonColor(entry.color) : null;
+    if (!isRecord(entry) || !isFiniteNumber(entry.position) || !color) {
+      throw new Error(`Stop ${index + 1} is malformed`);
+    }
+    return { position: entry.position, color };
+  });
+  const name = isRecord(json) && typeof json.name === "string" ? json.name : fallbackName;
+  return { name, gradient };
+}
+
+/** [r, g, b] in 0..1 or a hex string. */
+function readJsonColor(value: unknown): Color | null {
+  if (typeof value === "string") return hexToColor(value);
+  if (Array.isArray(value) && value.length >= 3 && value.slice(0, 3).every(isFiniteNumber)) {
+    return [value[0], value[1], value[2]];
+  }
+  return null;
+}
+
+/**
+ * GIMP gradients are a list of segments, each with left, middle and right points, RGBA end
+ * colors, a blend function and an RGB or HSV color model. Linear RGB segments with a centered
+ * middle map onto two stops exactly; the rest are sampled. Alpha is dropped since the palette
+ * has none.
+ */
+function parseGgr(text: string, fallbackName: string): NamedGradient {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  let name = fallbackName;
+  let index = 1;
+  if (lines[index]?.startsWith("Name:")) {
+    name = lines[index].slice(5).trim() || fallbackName;
+    index++;
+  }
+  const count = parseInt(lines[index++], 10);
+  if (!Number.isInteger(count) || count < 1) throw new Error("GIMP gradient has no segments");
+
+  const gradient: Gradient = [];
+  for (let s = 0; s < count; s++) {
+    const values = (lines[index + s] ?? "").split(/\s+/).map(Number);
+    if (values.length < 11 || values.slice(0, 11).some((v) => !Number.isFinite(v))) {
+      throw new Error(`Segment ${s + 1} is malformed`);
+    }
+    const [left, middle, right] = values;
+    const segment: GgrSegment = {
+      left,
+      middle,
+      right,
+      leftColor: [values[3], values[4], values[5]],
+      rightColor: [values[7], values[8], values[9]],
+      blend: values[11] ?? 0,
+      coloring: values[12] ?? 0
+    };
+    appendStops(gradient, ggrSegmentStops(segment));
+  }
+  return { name, gradient };
+}
+
+interface GgrSegment {
+  left: number;
+  middle: number;
+  right: number;
+  leftColor: Color;
+  rightColor: Color;
+  /** 0 linear, 1 curved, 2 sine, 3 sphere increasing, 4 sphere decreasing, 5 step */
+  blend: number;
+  /** 0 RGB, 1 HSV counter-clockwise, 2 HSV clockwise */
+  coloring: number;
+}
+
+function ggrSegmentStops(segment: GgrSegment): Gradient {
+  const { left, right, leftColor, rightColor } = segment;
+  const width = right - left;
+  const middle = width > 0 ? (segment.middle - left) / width : 0.5;
+  if (segment.blend === 5) {
+    const at = left + middle * width;
+    return [
+      { position: left, color: leftColor },
+      { position: at, color: leftColor },
+      { position: at, color: rightColor },
+      { position: right, color: rightColor }
+    ];
+  }
+  const plain = segment.blend === 0 && segment.coloring === 0 && Math.abs(middle - 0.5) < 1e-6;
+  const samples = plain ? 1 : ggrSamplesPerSegment;
+  const stops: Gradient = [];
+  for (let i = 0; i <= samples; i++) {
+    const u = i / samples;
+    const f = ggrBlend(segment.blend, u, middle);
+    const color = ggrMix(segment.coloring, leftColor, rightColor, f);
+    stops.push({ position: left + u * width, color });
+  }
+  return stops;
+}
+
+/** GIMP's blend factor at u across a segment whose middle sits at `middle` (both 0..1). */
+function ggrBlend(blend: number, u: number, middle: number) {
+  const epsilon = 1e-10;
+  if (blend === 1) return Math.pow(u, Math.log(0.5) / Math.log(Math.max(middle, epsilon)));
+  let f: number;
+  if (u <= middle) f = middle < epsilon ? 0 : (0.5 * u) / middle;
+  else f = 1 - middle < epsilon ? 1 : 0.5 + (0.5 * (u - middle)) / (1 - middle);
+  if (blend === 2) return (Math.sin(-Math.PI / 2 + Math.PI * f) + 1) / 2;
+  if (blend === 3) return Math.sqrt(1 - (f - 1) * (f - 1));
+  if (blend === 4) return 1 - Math.sqrt(1 - f * f);
+  return f;
+}
+
+function ggrMix(coloring: number, a: Color, b: Color, f: number): Color {
+  if (coloring === 0) return [0, 1, 2].map((c) => a[c] + (b[c] - a[c]) * f) as Color;
+  const [h0, s0, v0] = rgbToHsv(a);
+  const [h1, s1, v1] = rgbToHsv(b);
+  // Counter-clockwise raises the hue towards the right color, clockwise lowers it
+  let span = coloring === 1 ? h1 - h0 : h0 - h1;
+  if (span < 0) span += 1;
+  let h = coloring === 1 ? h0 + span * f : h0 - span * f;
+  h -= Math.floor(h);
+  return hsvToRgb(h, s0 + (s1 - s0) * f, v0 + (v1 - v0) * f);
+}
+
+/**
+ * Stops of the first linear-gradient or radial-gradient in the text. The direction or shape
+ * argument is skipped, positions must be percentages, and stops without one are spread evenly
+ * as browsers do. Color hints (a bare percentage between stops) are ignored.
+ */
+function parseCssGradient(text: string): Gradient {
+  const match = /(?:repeating-)?(?:linear|radial|conic)-gradient\s*\(/i.exec(text);
+  if (!match) throw new Error("No CSS gradient found");
+  const args = splitTopLevel(text.slice(match.index + match[0].length));
+
+  const stops: { color: Color; position: number | null }[] = [];
+  args.forEach((arg, index) => {
+    const parsed = parseCssStop(arg);
+    if (parsed) {
+      stops.push(...parsed);
+      return;
+    }
+    const isHint = /^-?[\d.]+%$/.test(arg);
+    // The first argument may be a direction, angle or shape rather than a stop
+    if (index > 0 && !isHint) throw new Error(`Unreadable color stop "${arg}"`);
+  });
+  if (stops.length === 0) throw new Error("CSS gradient has no color stops");
+
+  // CSS fix-up: the ends default to 0% and 100%, positions never go backwards, and runs of
+  // unpositioned stops are spaced evenly between their positioned neighbours
+  if (stops[0].position === null) stops[0].position = 0;
+  if (stops.length > 1 && stops[stops.length - 1].position === null) {
+    stops[stops.length - 1].position = 1;
+  }
+  let highest = 0;
+  for (const stop of stops) {
+    if (stop.position !== null) highest = stop.position = Math.max(stop.position, highest);
+  }
+  for (let i = 1; i < stops.length; i++) {
+    if (stops[i].position !== null) continue;
+    let end = i;
+    while (stops[end].position === null) end++;
+    const from = stops[i - 1].position!;
+    const to = stops[end].position!;
+    for (let k = i; k < end; k++) {
+      stops[k].position = from + ((to - from) * (k - i + 1)) / (end - i + 1);
+    }
+  }
+  return stops.map((stop) => ({ position: stop.position!, color: stop.color }));
+}
+
+/** `<color> [<percent> [<percent>]]`; null when the argument doesn't start with a color. */
+function parseCssStop(arg: string): { color: Color; position: number | null }[] | null {
+  const colorMatch = /^(#[0-9a-f]+|(?:rgba?|hsla?)\s*\([^)]*\)|[a-z]+)\s*(.*)$/i.exec(arg);
+  if (!colorMatch) return null;
+  const color = parseCssColor(colorMatch[1]);
+  if (!color) return null;
+  const positions = colorMatch[2].split(/\s+/).filter(Boolean);
+  if (positions.length === 0) return [{ color, position: null }];
+  return positions.slice(0, 2).map((value) => {
+    if (!/^-?[\d.]+%$/.test(value)) {
+      throw new Error(`Stop position "${value}" must be a percentage`);
+    }
+    return { color, position: parseFloat(value) / 100 };
+  });
+}
+
+function parseCssColor(text: string): Color | null {
+  const lower = text.toLowerCase();
+  if (lower.startsWith("#")) return hexToColor(lower);
+  if (lower in namedColors) return hexToColor(namedColors[lower]);
+  const fn = /^(rgba?|hsla?)\s*\(([^)]*)\)$/.exec(lower);
+  if (!fn) return null;
+  const parts = fn[2]
+    .split(/[\s,/]+/)
+    .filter(Boolean)
+    .slice(0, 3);
+  if (parts.length < 3) return null;
+  const number = (part: string, scale: number) =>
+    part.endsWith("%") ? parseFloat(part) / 100 : parseFloat(part) / scale;
+  if (fn[1].startsWith("rgb")) {
+    const rgb = parts.map((part) => number(part, 255));
+    return rgb.every(Number.isFinite) ? (rgb as Color) : null;
+  }
+  const hue = parseFloat(parts[0]) / 360;
+  const saturation = number(parts[1], 100);
+  const lightness = number(parts[2], 100);
+  if (![hue, saturation, lightness].every(Number.isFinite)) return null;
+  // HSL to HSV, then the shared HSV conversion
+  const v = lightness + saturation * Math.min(lightness, 1 - lightness);
+  const s = v > 0 ? 2 * (1 - lightness / v) : 0;
+  return hsvToRgb(hue - Math.floor(hue), s, v);
+}
+
+/** Arguments of a call up to its closing parenthesis, split on commas outside nested calls. */
+function splitTopLevel(text: string) {
+  const args: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "(") depth++;
+    else if (ch === ")" && depth-- === 0) {
+      args.push(text.slice(start, i));
+      return args.map((arg) => arg.trim()).filter(Boolean);
+    } else if (ch === "," && depth === 0) {
+      args.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  throw new Error("CSS gradient is missing its closing parenthesis");
+}
+
+/** One linear RGB segment per pair of neighbouring stops. */
+function formatGgr(name: string, gradient: Gradient) {
+  const stops = sortStops(gradient);
+  if (stops.length === 1) stops.push({ position: 1, color: stops[0].color });
+  const segments: string[] = [];
+  for (let i = 0; i + 1 < stops.length; i++) {
+    const a = stops[i];
+    const b = stops[i + 1];
+    const points = [a.position, (a.position + b.position) / 2, b.position];
+    const values = [...points, ...a.color, 1, ...b.color, 1, 0, 0].map((v) => round(v, 6));
+    segments.push(values.join(" "));
+  }
+  return ["GIMP Gradient", `Name: ${name}`, String(segments.length), ...segments, ""].join("\n");
+}
+
+/** Adds a segment's stops, dropping its first when it repeats the previous segment's last. */
+function appendStops(gradient: Gradient, stops: Gradient) {
+  const last = gradient[gradient.length - 1];
+  const first = stops[0];
+  const repeats =
+    last &&
+    Math.abs(last.position - first.position) < 1e-6 &&
+    last.color.every((v, c) => Math.abs(v - first.color[c]) < 1e-6);
+  gradient.push(...(repeats ? stops.slice(1) : stops));
+}
+
+function rgbToHsv([r, g, b]: Color): Color {
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) h = ((g - b) / delta + 6) % 6;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+  }
+  return [h / 6, max > 0 ? delta / max : 0, max];
+}
+
+function hsvToRgb(h: number, s: number, v: number): Color {
+  const f = (n: number) => {
+    const k = (n + h * 6) % 6;
+    return v - v * s * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return [f(5), f(3), f(1)];
+}
+
+function round(value: number, decimals = 4) {
+  const scale = 10 ** decimals;
+  return Math.round(value * scale) / scale;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
@@ -0,0 +1,353 @@
+import { vec3 } from "gl-matrix";
+import { StarRange } from "./generator";
+import { ColorMode, floatsPerStar, GalaxyParameters, StarBuffer } from "./parameters";
+import { GalaxyTransform, galaxyModelMatrix } from "./scene";
+
+/**
+ * Encounter setup. Distances are in disk radii of the primary (after its scale); time is in
+ * simulation units where a star at the primary's disk edge takes roughly 25 units per orbit.
+ */
+export interface InteractionSettings {
+  /** closest approach of the two-body orbit */
+  pericenter: number;
+  /** 1 is parabolic, below 1 bound, above 1 hyperbolic */
+  eccentricity: number;
+  /** secondary mass over primary mass */
+  massRatio: number;
+  /** separation the orbit starts from (clamped to apocenter for bound orbits) */
+  startSeparation: number;
+  /** drag on the relative orbit standing in for dynamical friction; 0 is a pure flyby */
+  friction: number;
+  duration: number;
+  frameCount: number;
+  /** test particles kept across both galaxies; the rest are thinned out evenly */
+  particleBudget: number;
+}
+
+export const defaultInteractionSettings: InteractionSettings = {
+  pericenter: 1.4,
+  eccentricity: 1,
+  massRatio: 1,
+  startSeparation: 5,
+  friction: 0,
+  duration: 80,
+  frameCount: 120,
+  particleBudget: 50_000
+};
+
+export const interactionPresets: { name: string; settings: InteractionSettings }[] = [
+  { name: "Tidal tails (prograde flyby)", settings: defaultInteractionSettings },
+  {
+    name: "Bridge (light companion)",
+    settings: { ...defaultInteractionSettings, pericenter: 1.8, massRatio: 0.25, duration: 80 }
+  },
+  {
+    name: "Shells (radial minor merger)",
+    settings: {
+      ...defaultInteractionSettings,
+      pericenter: 0.1,
+      eccentricity: 0.6,
+      massRatio: 0.1,
+      startSeparation: 3,
+      friction: 0.6,
+      duration: 200,
+      frameCount: 160
+    }
+  },
+  {
+    name: "Major merger",
+    settings: {
+      ...defaultInteractionSettings,
+      pericenter: 0.8,
+      eccentricity: 0.9,
+      friction: 0.8,
+      duration: 180,
+      frameCount: 150
+    }
+  }
+];
+
+/** One of the galaxies taking part, as it stands in the scene. */
+export interface EncounterSource {
+  params: GalaxyParameters;
+  transform: GalaxyTransform;
+  stars: StarBuffer;
+  dust: StarRange;
+}
+
+/** A galaxy's mass center; its stars are massless test particles. */
+export interface EncounterBody {
+  mass: number;
+  /** Plummer softening length */
+  softening: number;
+  position: [number, number, number];
+  velocity: [number, number, number];
+}
+
+export interface Encounter {
+  settings: InteractionSettings;
+  bodies: [EncounterBody, EncounterBody];
+  /** xyz per particle in world space */
+  positions: Float32Array;
+  velocities: Float32Array;
+  /** Particles at t = 0 in StarBuffer layout; frames only replace the positions. */
+  stars: StarBuffer;
+  /** The absorbing (dust) particles of both galaxies, gathered at the end. */
+  absorbing: StarRange;
+  colorMode: ColorMode;
+}
+
+export interface EncounterFrame {
+  index: number;
+  time: number;
+  positions: Float32Array;
+}
+
+const gravity = 1;
+const primaryMass = 4000;
+const softeningFraction = 0.3;
+/** Most leapfrog substeps per frame, so a small, light galaxy can't stall the worker. */
+export const maxSubsteps = 64;
+
+/**
+ * Places the primary and secondary on a Kepler orbit in the scene's horizontal plane (orbital
+ * spin along +y, the same sense as an unrotated disk, so face-on disks meet prograde) and gives
+ * every star a circular velocity about its own galaxy. Disk orientation and size come from each
+ * galaxy's transform; its scene position is replaced by the orbit.
+ */
+export function createEncounter(
+  primary: EncounterSource,
+  secondary: EncounterSource,
+  settings: InteractionSettings
+): Encounter {
+  const unit = Math.max(1, primary.params.diskRadius) * primary.transform.scale;
+  const bodies = encounterOrbit(primary, secondary, settings, unit);
+  const sources = [primary, secondary];
+
+  const total = primary.stars.count + secondary.stars.count;
+  const keep = Math.min(1, Math.max(1, settings.particleBudget) / Math.max(1, total));
+  // Emissive particles of both galaxies first, then all dust, so absorption stays one range.
+  const ranges: { host: number; start: number; end: number; dust: boolean }[] = [];
+  for (const dust of [false, true]) {
+    sources.forEach((source, host) => {
+      const dustStart = Math.min(source.dust.offset, source.stars.count);
+      const dustEnd = Math.min(source.dust.offset + source.dust.count, source.stars.count);
+      ranges.push({ host, start: dust ? dustStart : 0, end: dust ? dustEnd : dustStart, dust });
+    });
+  }
+
+  const picked: { host: number; index: number; dust: boolean }[] = [];
+  for (const range of ranges) {
+    for (let i = range.start; i < range.end; i++) {
+      if (Math.floor((i + 1) * keep) > Math.floor(i * keep)) {
+        picked.push({ host: range.host, index: i, dust: range.dust });
+      }
+    }
+  }
+
+  const count = picked.length;
+  const data = new Float32Array(count * floatsPerStar);
+  const positions = new Float32Array(count * 3);
+  const velocities = new Float32Array(count * 3);
+  const rotations = sources.map((source) =>
+    galaxyModelMatrix({ ...source.transform, position: [0, 0, 0] })
+  );
+  const axes = rotations.map((rotation) => {
+    const axis = vec3.transformMat4(vec3.create(), [0, 1, 0], rotation);
+    return vec3.normalize(axis, axis);
+  });
+  const local = vec3.create();
+  const world = vec3.create();
+  const tangent = vec3.create();
+
+  let dustStart = count;
+  picked.forEach(({ host, index, dust }, i) => {
+    if (dust && dustStart === count) dustStart = i;
+    const source = sources[host];
+    const body = bodies[host];
+    const src = source.stars.data.subarray(index * floatsPerStar, (index + 1) * floatsPerStar);
+    data.set(src, i * floatsPerStar);
+
+    vec3.set(local, src[0], src[1], src[2]);
+    vec3.transformMat4(world, local, rotations[host]);
+    const r = vec3.length(world);
+    vec3.cross(tangent, axes[host], world);
+    const lever = vec3.length(tangent);
+    const speed = circularSpeed(body, r);
+    if (lever > 1e-6) vec3.scale(tangent, tangent, speed / lever);
+
+    for (let k = 0; k < 3; k++) {
+      positions[i * 3 + k] = body.position[k] + world[k];
+      velocities[i * 3 + k] = body.velocity[k] + (lever > 1e-6 ? tangent[k] : 0);
+      data[i * floatsPerStar + k] = positions[i * 3 + k];
+    }
+  });
+
+  return {
+    settings,
+    bodies,
+    positions,
+    velocities,
+    stars: { data, count },
+    absorbing: { offset: dustStart, count: count - dustStart },
+    colorMode: primary.params.colorMode
+  };
+}
+
+/**
+ * Leapfrog substeps between frames: enough to resolve a tenth of the shorter dynamical time,
+ * up to maxSubsteps. `limited` is true when the cap applies, so orbits deep inside the lighter
+ * galaxy are integrated with a coarser step than they need.
+ */
+export function encounterSubsteps(encounter: Encounter) {
+  const { settings, bodies } = encounter;
+  const maxStep = 0.1 * Math.min(...bodies.map(dynamicalTime));
+  const needed = Math.max(1, Math.ceil(frameInterval(settings) / maxStep));
+  return { substeps: Math.min(needed, maxSubsteps), limited: needed > maxSubsteps };
+}
+
+/**
+ * Integrates the encounter with kick-drift-kick leapfrog and reports frameCount evenly spaced
+ * snapshots, starting with the initial state. Mutates the encounter's positions and velocities.
+ */
+export function simulateEncounter(encounter: Encounter, onFrame: (frame: EncounterFrame) => void) {
+  const { settings, bodies, positions, velocities } = encounter;
+  const frameCount = Math.max(2, Math.floor(settings.frameCount));
+  const interval = frameInterval(settings);
+  const { substeps } = encounterSubsteps(encounter);
+  const dt = interval / substeps;
+  const count = positions.length / 3;
+  const accelerations = new Float32Array(count * 3);
+  const bodyAcc: [number, number, number][] = [
+    [0, 0, 0],
+    [0, 0, 0]
+  ];
+
+  const computeAccelerations = () => {
+    bodyAccelerations(bodies, settings.friction, bodyAcc);
+    for (let i = 0; i < count; i++) {
+      let ax = 0;
+      let ay = 0;
+      let az = 0;
+      for (const body of bodies) {
+        const dx = body.position[0] - positions[i * 3];
+        const dy = body.position[1] - positions[i * 3 + 1];
+        const dz = body.position[2] - positions[i * 3 + 2];
+        const r2 = dx * dx + dy * dy + dz * dz + body.softening * body.softening;
+        const f = (gravity * body.mass) / (r2 * Math.sqrt(r2));
+        ax += dx * f;
+        ay += dy * f;
+        az += dz * f;
+      }
+      accelerations[i * 3] = ax;
+      accelerations[i * 3 + 1] = ay;
+      accelerations[i * 3 + 2] = az;
+    }
+  };
+
+  const kick = (h: number) => {
+    for (let i = 0; i < count * 3; i++) velocities[i] += accelerations[i] * h;
+    bodies.forEach((body, b) => {
+      for (let k = 0; k < 3; k++) body.velocity[k] += bodyAcc[b][k] * h;
+    });
+  };
+
+  const drift = (h: number) => {
+    for (let i = 0; i < count * 3; i++) positions[i] += velocities[i] * h;
+    for (const body of bodies) {
+      for (let k = 0; k < 3; k++) body.position[k] += body.velocity[k] * h;
+    }
+  };
+
+  computeAccelerations();
+  onFrame({ index: 0, time: 0, positions: positions.slice() });
+  for (let frame = 1; frame < frameCount; frame++) {
+    for (let step = 0; step < substeps; step++) {
+      kick(dt / 2);
+      drift(dt);
+      computeAccelerations();
+      kick(dt / 2);
+    }
+    onFrame({ index: frame, time: frame * interval, positions: positions.slice() });
+  }
+}
+
+/** The encounter's stars moved to a simulated frame, ready for GalaxyRenderer.setStars. */
+export function frameStars(encounter: Encounter, frame: EncounterFrame): StarBuffer {
+  const { count } = encounter.stars;
+  const data = encounter.stars.data.slice();
+  for (let i = 0; i < count; i++) {
+    data[i * floatsPerStar] = frame.positions[i * 3];
+    data[i * floatsPerStar + 1] = frame.positions[i * 3 + 1];
+    data[i * floatsPerStar + 2] = frame.positions[i * 3 + 2];
+  }
+  return { data, count };
+}
+
+function encounterOrbit(
+  primary: EncounterSource,
+  secondary: EncounterSource,
+  settings: InteractionSettings,
+  unit: number
+): [EncounterBody, EncounterBody] {
+  const m1 = primaryMass;
+  const m2 = primaryMass * Math.max(1e-3, settings.massRatio);
+  const total = m1 + m2;
+  const e = Math.max(0, settings.eccentricity);
+  const q = Math.max(0.01, settings.pericenter) * unit;
+  const p = q * (1 + e);
+  let r0 = Math.max(q, settings.startSeparation * unit);
+  if (e < 1) r0 = Math.min(r0, p / (1 - e));
+  // True anomaly before pericenter, so the galaxies are approaching.
+  const cosF = e > 0 ? clamp((p / r0 - 1) / e, -1, 1) : 1;
+  const f = -Math.acos(cosF);
+  const r = p / (1 + e * Math.cos(f));
+  const speed = Math.sqrt((gravity * total) / p);
+  const rel = [r * Math.cos(f), 0, -r * Math.sin(f)];
+  const relVel = [-speed * Math.sin(f), 0, -speed * (e + Math.cos(f))];
+
+  const body = (source: EncounterSource, mass: number, share: number): EncounterBody => ({
+    mass,
+    softening: softeningFraction * Math.max(1, source.params.diskRadius) * source.transform.scale,
+    position: [rel[0] * share, rel[1] * share, rel[2] * share],
+    velocity: [relVel[0] * share, relVel[1] * share, relVel[2] * share]
+  });
+  return [body(primary, m1, -m2 / total), body(secondary, m2, m1 / total)];
+}
+
+/** Mutual softened pull plus the friction drag on the relative velocity (momentum conserving). */
+function bodyAccelerations(
+  bodies: [EncounterBody, EncounterBody],
+  friction: number,
+  out: [number, number, number][]
+) {
+  const [a, b] = bodies;
+  const total = a.mass + b.mass;
+  const soft2 = a.softening * a.softening + b.softening * b.softening;
+  const d = [0, 1, 2].map((k) => b.position[k] - a.position[k]);
+  const dv = [0, 1, 2].map((k) => b.velocity[k] - a.velocity[k]);
+  const r2 = d[0] * d[0] + d[1] * d[1] + d[2] * d[2] + soft2;
+  const inv3 = 1 / (r2 * Math.sqrt(r2));
+  const drag = friction * Math.sqrt(gravity * total * inv3);
+  for (let k = 0; k < 3; k++) {
+    out[0][k] = gravity * b.mass * d[k] * inv3 + (b.mass / total) * drag * dv[k];
+    out[1][k] = -gravity * a.mass * d[k] * inv3 - (a.mass / total) * drag * dv[k];
+  }
+}
+
+function circularSpeed(body: EncounterBody, r: number) {
+  const r2 = r * r + body.softening * body.softening;
+  return Math.sqrt(gravity * body.mass) * r * Math.pow(r2, -0.75);
+}
+
+function frameInterval(settings: InteractionSettings) {
+  return Math.max(1e-3, settings.duration) / (Math.max(2, Math.floor(settings.frameCount)) - 1);
+}
+
+function dynamicalTime(body: EncounterBody) {
+  return Math.sqrt(Math.pow(body.softening, 3) / (gravity * body.mass));
+}
+
+function clamp(v: number, min: number, max: number) {
+  return Math.min(Math.max(v, min), max);
+}
@@ -0,0 +1,36 @@
+/// <reference lib="webworker" />
+import { Encounter, simulateEncounter } from "./interaction";
+
+type Inbound = { type: "simulate"; id: number; encounter: Encounter } | { type: "terminate" };
+
+type Outbound =
+  | { type: "frame"; id: number; index: number; time: number; buffer: ArrayBuffer }
+  | { type: "done"; id: number; elapsedMs: number }
+  | { type: "error"; id: number; message: string };
+
+const ctx: DedicatedWorkerGlobalScope = self as unknown as DedicatedWorkerGlobalScope;
+
+ctx.onmessage = (event: MessageEvent<Inbound>) => {
+  const msg = event.data;
+  if (msg.type === "terminate") {
+    ctx.close();
+    return;
+  }
+
+  if (msg.type !== "simulate") return;
+
+  try {
+    const started = performance.now();
+    simulateEncounter(msg.encounter, (frame) => {
+      const buffer = frame.positions.buffer as ArrayBuffer;
+      const { index, time } = frame;
+      const payload: Outbound = { type: "frame", id: msg.id, index, time, buffer };
+      ctx.postMessage(payload, [buffer]);
+    });
+    const elapsedMs = performance.now() - started;
+    ctx.postMessage({ type: "done", id: msg.id, elapsedMs } satisfies Outbound);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    ctx.postMessage({ type: "error", id: msg.id, message } satisfies Outbound);
+  }
+};
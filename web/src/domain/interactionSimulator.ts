@@ -0,0 +1,101 @@
+import { Encounter, EncounterFrame } from "./interaction";
+
+type WorkerMessage =
+  | { type: "frame"; id: number; index: number; time: number; buffer: ArrayBuffer }
+  | { type: "done"; id: number; elapsedMs: number }
+  | { type: "error"; id: number; message: string };
+
+export interface SimulationResult {
+  frames: EncounterFrame[];
+  elapsedMs: number;
+}
+
+interface Job {
+  id: number;
+  frames: EncounterFrame[];
+  onFrame?: (frame: EncounterFrame, total: number) => void;
+  total: number;
+  resolve: (result: SimulationResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs encounter integrations on a worker and collects the frames as they stream back. The
+ * integrator never yields, so cancelling terminates the worker and the next run spawns a new one.
+ */
+export class InteractionSimulator {
+  private worker: Worker | null = null;
+  private job: Job | null = null;
+  private nextJobId = 0;
+
+  /** Starts a new simulation; one still running is rejected with an AbortError. */
+  simulate(
+    encounter: Encounter,
+    onFrame?: (frame: EncounterFrame, total: number) => void
+  ): Promise<SimulationResult> {
+    this.cancel();
+    const worker = this.ensureWorker();
+    return new Promise<SimulationResult>((resolve, reject) => {
+      const total = Math.max(2, Math.floor(encounter.settings.frameCount));
+      this.job = { id: ++this.nextJobId, frames: [], onFrame, total, resolve, reject };
+      worker.postMessage({ type: "simulate", id: this.job.id, encounter });
+    });
+  }
+
+  cancel() {
+    const job = this.job;
+    if (!job) return;
+    this.job = null;
+    this.worker?.terminate();
+    this.worker = null;
+    job.reject(new DOMException("Aborted", "AbortError"));
+  }
+
+  dispose() {
+    this.cancel();
+    this.worker?.postMessage({ type: "terminate" });
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private ensureWorker() {
+    if (this.worker) return this.worker;
+    const worker = new Worker(new URL("./interaction.worker.ts", import.meta.url), {
+      type: "module"
+    });
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => this.handleMessage(event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      const job = this.job;
+      if (!job) return;
+      this.job = null;
+      job.reject(new Error(event.message || "Interaction worker failed"));
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleMessage(msg: WorkerMessage) {
+    const job = this.job;
+    if (!job || msg.id !== job.id) return;
+
+    if (msg.type === "error") {
+      this.job = null;
+      job.reject(new Error(msg.message));
+      return;
+    }
+
+    if (msg.type === "done") {
+      this.job = null;
+      job.resolve({ frames: job.frames, elapsedMs: msg.elapsedMs });
+      return;
+    }
+
+    const frame: EncounterFrame = {
+      index: msg.index,
+      time: msg.time,
+      positions: new Float32Array(msg.buffer)
+    };
+    job.frames.push(frame);
+    job.onFrame?.(frame, job.total);
+  }
+}
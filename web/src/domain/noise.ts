@@ -0,0 +1,131 @@
+import { Random } from "./random";
+
+/** Coherent noise in roughly [-1, 1]. */
+export type Noise3 = (x: number, y: number, z: number) => number;
+
+const gradients = [
+  [1, 1, 0],
+  [-1, 1, 0],
+  [1, -1, 0],
+  [-1, -1, 0],
+  [1, 0, 1],
+  [-1, 0, 1],
+  [1, 0, -1],
+  [-1, 0, -1],
+  [0, 1, 1],
+  [0, -1, 1],
+  [0, 1, -1],
+  [0, -1, -1]
+];
+
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+
+/**
+ * 3D simplex noise (Gustavson's formulation). The permutation table is shuffled with `random`,
+ * so the field is fixed by the seed of the stream it is built from.
+ */
+export function createSimplexNoise(random: Random): Noise3 {
+  const p = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) p[i] = i;
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const t = p[i];
+    p[i] = p[j];
+    p[j] = t;
+  }
+  const perm = new Uint8Array(512);
+  const permMod12 = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) {
+    perm[i] = p[i & 255];
+    permMod12[i] = perm[i] % 12;
+  }
+
+  const corner = (gi: number, x: number, y: number, z: number) => {
+    const t = 0.6 - x * x - y * y - z * z;
+    if (t < 0) return 0;
+    const g = gradients[gi];
+    return t * t * t * t * (g[0] * x + g[1] * y + g[2] * z);
+  };
+
+  return (xin, yin, zin) => {
+    // Skew into the simplex grid and find which of the six tetrahedra holds the point
+    const s = (xin + yin + zin) * F3;
+    const i = Math.floor(xin + s);
+    const j = Math.floor(yin + s);
+    const k = Math.floor(zin + s);
+    const t = (i + j + k) * G3;
+    const x0 = xin - (i - t);
+    const y0 = yin - (j - t);
+    const z0 = zin - (k - t);
+
+    // Offsets of the second and third corners
+    let i1 = 0;
+    let j1 = 0;
+    let k1 = 0;
+    let i2 = 1;
+    let j2 = 1;
+    let k2 = 1;
+    if (x0 >= y0) {
+      i1 = 1;
+      if (y0 >= z0) k2 = 0;
+      else if (x0 >= z0) j2 = 0;
+      else {
+        i1 = 0;
+        k1 = 1;
+        j2 = 0;
+      }
+    } else {
+      i2 = 0;
+      if (y0 < z0) k1 = 1;
+      else if (x0 < z0) j1 = 1;
+      else {
+        j1 = 1;
+        i2 = 1;
+        k2 = 0;
+      }
+    }
+
+    const ii = i & 255;
+    const jj = j & 255;
+    const kk = k & 255;
+    const n0 = corner(permMod12[ii + perm[jj + perm[kk]]], x0, y0, z0);
+    const n1 = corner(
+      permMod12[ii + i1 + perm[jj + j1 + perm[kk + k1]]],
+      x0 - i1 + G3,
+      y0 - j1 + G3,
+      z0 - k1 + G3
+    );
+    const n2 = corner(
+      permMod12[ii + i2 + perm[jj + j2 + perm[kk + k2]]],
+      x0 - i2 + 2 * G3,
+      y0 - j2 + 2 * G3,
+      z0 - k2 + 2 * G3
+    );
+    const n3 = corner(
+      permMod12[ii + 1 + perm[jj + 1 + perm[kk + 1]]],
+      x0 - 1 + 3 * G3,
+      y0 - 1 + 3 * G3,
+      z0 - 1 + 3 * G3
+    );
+    return 32 * (n0 + n1 + n2 + n3);
+  };
+}
+
+/**
+ * Fractal Brownian motion: octaves of `noise` at doubling frequency and halving amplitude,
+ * normalized back to roughly [-1, 1].
+ */
+export function fbm(noise: Noise3, x: number, y: number, z: number, octaves: number) {
+  let sum = 0;
+  let amplitude = 1;
+  let norm = 0;
+  let frequency = 1;
+  for (let o = 0; o < octaves; o++) {
+    sum += amplitude * noise(x * frequency, y * frequency, z * frequency);
+    norm += amplitude;
+    amplitude *= 0.5;
+    frequency *= 2;
+  }
+  return norm > 0 ? sum / norm : 0;
+}
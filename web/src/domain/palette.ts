@@ -0,0 +1,119 @@
+import { ParticleType } from "./parameters";
+import { blackbodyColor, indexToTemperature } from "./population";
+
+/** Entries in a palette strip; colorIndex01 spans the whole strip. */
+export const paletteSize = 256;
+
+/** paletteSize RGB triples, the layout uploaded as the renderer's 1xN palette texture. */
+export type Palette = Float32Array;
+
+/** Emission-knot colors, H-alpha at colorIndex01 = 0 and OIII at 1 (the fragment shader's). */
+export const nebulaColors = {
+  hAlpha: [1.0, 0.32, 0.55],
+  oiii: [0.28, 0.95, 0.85]
+};
+
+/** A color at a point of a gradient; position runs 0..1 along colorIndex01. */
+export interface PaletteStop {
+  position: number;
+  color: [number, number, number];
+}
+
+/** Stops in ascending position; colors are interpolated linearly between neighbours. */
+export type Gradient = PaletteStop[];
+
+/** Warm core through white to blue outskirts; the palette presets fall back to. */
+export const defaultGradient: Gradient = [
+  { position: 0, color: [1.0, 0.95, 0.9] },
+  { position: 0.2, color: [1.0, 0.95, 0.9] },
+  { position: 0.5, color: [0.85, 0.9, 1.0] },
+  { position: 1, color: [0.45, 0.6, 1.0] }
+];
+
+/** Samples a gradient into the strip used by "palette" color mode. */
+export function buildPalette(gradient: Gradient = defaultGradient): Palette {
+  const palette = new Float32Array(paletteSize * 3);
+  const stops = sortStops(gradient);
+  const col: [number, number, number] = [0, 0, 0];
+  for (let i = 0; i < paletteSize; i++) {
+    sampleGradient(stops, i / (paletteSize - 1), col);
+    palette[i * 3 + 0] = col[0];
+    palette[i * 3 + 1] = col[1];
+    palette[i * 3 + 2] = col[2];
+  }
+  return palette;
+}
+
+/**
+ * Color of a gradient at t. Outside the first and last stop the end colors hold; an empty
+ * gradient is black. `stops` must be sorted by position.
+ */
+export function sampleGradient(
+  stops: Gradient,
+  t: number,
+  out: [number, number, number] = [0, 0, 0]
+) {
+  if (stops.length === 0) {
+    out[0] = out[1] = out[2] = 0;
+    return out;
+  }
+  let next = stops.findIndex((stop) => stop.position > t);
+  if (next === -1) next = stops.length;
+  const a = stops[Math.max(0, next - 1)];
+  const b = stops[Math.min(stops.length - 1, next)];
+  const span = b.position - a.position;
+  const f = span > 0 ? clamp((t - a.position) / span, 0, 1) : 0;
+  for (let c = 0; c < 3; c++) out[c] = a.color[c] + (b.color[c] - a.color[c]) * f;
+  return out;
+}
+
+/** A copy ordered by position, with positions clamped to 0..1; equal positions keep order. */
+export function sortStops(gradient: Gradient): Gradient {
+  return gradient
+    .map((stop) => ({ position: clamp(stop.position, 0, 1), color: stop.color }))
+    .sort((a, b) => a.position - b.position);
+}
+
+/** Blackbody colors across the log temperature range encoded in colorIndex01. */
+export function buildBlackbodyPalette(): Palette {
+  const palette = new Float32Array(paletteSize * 3);
+  for (let i = 0; i < paletteSize; i++) {
+    const [r, g, b] = blackbodyColor(indexToTemperature(i / (paletteSize - 1)));
+    palette[i * 3 + 0] = r;
+    palette[i * 3 + 1] = g;
+    palette[i * 3 + 2] = b;
+  }
+  return palette;
+}
+
+/**
+ * The color the renderer gives a particle, before intensity: a linearly filtered palette lookup
+ * for stars, the H-alpha/OIII mix for nebula knots and black for dust, which only absorbs.
+ */
+export function particleColor(
+  palette: Palette,
+  colorIndex01: number,
+  type: number,
+  out: [number, number, number] = [0, 0, 0]
+) {
+  const t = clamp(colorIndex01, 0, 1);
+  if (type === ParticleType.dust) {
+    out[0] = out[1] = out[2] = 0;
+  } else if (type === ParticleType.nebula) {
+    const { hAlpha, oiii } = nebulaColors;
+    for (let c = 0; c < 3; c++) out[c] = hAlpha[c] + (oiii[c] - hAlpha[c]) * t;
+  } else {
+    const entries = palette.length / 3;
+    const position = t * (entries - 1);
+    const i = Math.min(Math.floor(position), entries - 2);
+    const f = position - i;
+    for (let c = 0; c < 3; c++) {
+      out[c] = palette[i * 3 + c] + (palette[(i + 1) * 3 + c] - palette[i * 3 + c]) * f;
+    }
+  }
+  return out;
+}
+
+function clamp(v: number, min: number, max: number) {
+  return Math.min(Math.max(v, min), max);
+}
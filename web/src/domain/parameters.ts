@@ -1,4 +1,12 @@
+/**
+ * How colorIndex01 is produced: "palette" derives it from brightness and looks it up in the
+ * gradient palette; "population" stores a log-scaled stellar temperature rendered as blackbody.
+ */
+export type ColorMode = "palette" | "population";
+
 export interface GalaxyParameters {
+  /** Drives every random stream; same seed + parameters gives a bit-identical StarBuffer. */
+  seed: number;
   starCount: number;
   armCount: number;
   armTwist: number;
@@ -13,9 +21,95 @@ export interface GalaxyParameters {
   bulgeFalloff: number;
   bulgeVerticalScale: number;
   bulgeBrightness: number;
+  /** fBm octaves of the clump density field applied to the disk, HII and dust; 0 turns it off. */
+  noiseOctaves: number;
+  /** Base frequency of the clump field in cycles per disk radius. */
+  noiseFrequency: number;
+  /** How strongly the field thins out low-density regions; the density goes as exp(c * fbm). */
+  noiseContrast: number;
+  /** Growth of the disk thickness with radius: the edge is (1 + diskFlare) times the center. */
+  diskFlare: number;
+  /** Height the disk midplane bends to at its edge; 0 keeps the disk flat. */
+  warpAmplitude: number;
+  /** Radius where the warp begins, as a fraction of diskRadius. */
+  warpStart: number;
+  /** Line-of-nodes angle of the warp in degrees; the disk bends up and down 90 degrees off it. */
+  warpAngle: number;
+  /** Bar semi-major axis; arms start from the bar ends when a bar is present. */
+  barLength: number;
+  /** Minor / major axis ratio of the bar. */
+  barAxisRatio: number;
+  barStarCount: number;
+  barBrightness: number;
+  /** Bar position angle in degrees. */
+  barAngle: number;
+  /** Dust particles per disk star; 0 disables the dust lanes. */
+  dustDensity: number;
+  /** Angular spread of a dust lane around the arm's inner edge (radians). */
+  dustWidth: number;
+  /** Peak opacity of a single dust particle. */
+  dustOpacity: number;
+  /** Number of star-forming knots (HII regions) along the arm crests. */
+  hiiRegionCount: number;
+  /** Gaussian radius of a single knot. */
+  hiiClumpSize: number;
+  hiiBrightness: number;
+  /** Stars in the spheroidal stellar halo. */
+  haloStarCount: number;
+  haloRadius: number;
+  /** Power-law slope n of the halo density, rho ~ r^-n. */
+  haloProfile: number;
+  haloBrightness: number;
+  globularCount: number;
+  /** Stars per globular cluster. */
+  globularStarCount: number;
+  /** Plummer scale radius of a single cluster. */
+  globularRadius: number;
+  globularBrightness: number;
+  /**
+   * Rings: stars in a Gaussian annulus of the given radius and width, tilted by inclination
+   * (degrees) about the disk's x axis. A star count of 0 disables a ring.
+   */
+  nuclearRingStarCount: number;
+  nuclearRingRadius: number;
+  nuclearRingWidth: number;
+  nuclearRingInclination: number;
+  innerRingStarCount: number;
+  innerRingRadius: number;
+  innerRingWidth: number;
+  innerRingInclination: number;
+  outerRingStarCount: number;
+  outerRingRadius: number;
+  outerRingWidth: number;
+  outerRingInclination: number;
+  /** A ring of its own gas and stars crossing the host disk, typically near 90 degrees. */
+  polarRingStarCount: number;
+  polarRingRadius: number;
+  polarRingWidth: number;
+  polarRingInclination: number;
+  /** Stars in the shell system; 0 disables it. */
+  shellStarCount: number;
+  /** Number of concentric shells, alternating sides of the shell axis. */
+  shellCount: number;
+  /** Radius of the outermost shell; inner shells are spaced geometrically inside it. */
+  shellRadius: number;
+  /** Inward fade of each shell behind its sharp outer edge. */
+  shellWidth: number;
+  /** Tilt of the shell axis out of the disk plane in degrees. */
+  shellInclination: number;
+  colorMode: ColorMode;
+  /** Relative size of the young population; boosted on the arm crests. */
+  starFormationRate: number;
+  /** Age of the young population in Gyr (~0.01 for ongoing star formation, ~1 after a burst). */
+  youngAge: number;
+  /** Age of the old disk population in Gyr. */
+  diskAge: number;
+  /** Age of the bulge and bar population in Gyr. */
+  bulgeAge: number;
 }
 
 export const defaultParameters: GalaxyParameters = {
+  seed: 1337,
   starCount: 60000,
   armCount: 4,
   armTwist: 5,
@@ -29,11 +123,103 @@ export const defaultParameters: GalaxyParameters = {
   bulgeStarCount: 20000,
   bulgeFalloff: 2,
   bulgeVerticalScale: 0.8,
-  bulgeBrightness: 2
+  bulgeBrightness: 2,
+  noiseOctaves: 0,
+  noiseFrequency: 4,
+  noiseContrast: 2,
+  diskFlare: 0,
+  warpAmplitude: 0,
+  warpStart: 0.6,
+  warpAngle: 0,
+  barLength: 0,
+  barAxisRatio: 0.3,
+  barStarCount: 0,
+  barBrightness: 1.6,
+  barAngle: 0,
+  dustDensity: 0,
+  dustWidth: 0.08,
+  dustOpacity: 0.35,
+  hiiRegionCount: 0,
+  hiiClumpSize: 0.8,
+  hiiBrightness: 1.5,
+  haloStarCount: 0,
+  haloRadius: 120,
+  haloProfile: 3.5,
+  haloBrightness: 0.4,
+  globularCount: 0,
+  globularStarCount: 400,
+  globularRadius: 0.6,
+  globularBrightness: 1.2,
+  nuclearRingStarCount: 0,
+  nuclearRingRadius: 3,
+  nuclearRingWidth: 0.5,
+  nuclearRingInclination: 0,
+  innerRingStarCount: 0,
+  innerRingRadius: 14,
+  innerRingWidth: 1.4,
+  innerRingInclination: 0,
+  outerRingStarCount: 0,
+  outerRingRadius: 36,
+  outerRingWidth: 2.5,
+  outerRingInclination: 0,
+  polarRingStarCount: 0,
+  polarRingRadius: 22,
+  polarRingWidth: 2,
+  polarRingInclination: 90,
+  shellStarCount: 0,
+  shellCount: 5,
+  shellRadius: 60,
+  shellWidth: 3,
+  shellInclination: 0,
+  colorMode: "population",
+  starFormationRate: 1,
+  youngAge: 0.02,
+  diskAge: 6,
+  bulgeAge: 10
 };
 
+/** Floats per star in a StarBuffer. */
+export const floatsPerStar = 6;
+
+/**
+ * What a particle is; stored as a float in the last StarBuffer slot.
+ * Nebula particles use colorIndex01 as an H-alpha (0) to OIII (1) mix instead of the palette.
+ */
+export const ParticleType = {
+  star: 0,
+  nebula: 1,
+  dust: 2
+} as const;
+
+export type ParticleTypeId = (typeof ParticleType)[keyof typeof ParticleType];
+
+/**
+ * GPU vertex layouts a StarBuffer can be uploaded as. Both append the star's orbital radius and
+ * phase (fraction of a turn) in the disk plane, derived on upload, for the animated rotation.
+ * - "float32": the StarBuffer floats followed by radius and phase, 32 bytes per star.
+ * - "compact": 14 bytes per star; xyz as half floats (6 bytes), then sqrt(intensity / 8) and
+ *   colorIndex01 as normalized unsigned bytes, the particle type as an unsigned byte, one
+ *   byte of padding, the radius as a half float and the phase as a normalized unsigned short.
+ *   The square root keeps faint disk stars from collapsing to zero; the shader squares it back.
+ */
+export type VertexLayout = "float32" | "compact";
+
+/**
+ * Generated stars, always stored as float32 on the CPU side. The renderer converts to the
+ * selected VertexLayout on upload, so generation and export never depend on it.
+ */
 export interface StarBuffer {
-  /** interleaved xyz,intensity,colorIndex01 */
+  /** interleaved xyz,intensity,colorIndex01,type (floatsPerStar floats per star) */
+  data: Float32Array;
+  count: number;
+}
+
+/** A contiguous slice of a StarBuffer streamed while generation is still running. */
+export interface StarChunk {
   data: Float32Array;
+  /** index of the first star in this chunk */
+  offset: number;
   count: number;
+  /** stars the finished buffer will hold */
+  total: number;
 }
@@ -0,0 +1,69 @@
+import { mat4, vec3 } from "gl-matrix";
+import { RigidRange } from "./generator";
+import { floatsPerStar, ParticleType, StarBuffer } from "./parameters";
+import { angularVelocity, RotationSettings } from "./rotation";
+
+/** One galaxy's stars as currently drawn. */
+export interface PickSource {
+  stars: StarBuffer;
+  /** Stars the rotation turns as a solid body or leaves in place, as the renderer has them. */
+  rigid: RigidRange[];
+  model: mat4;
+  /** Seconds of animated rotation to apply first, as the vertex shader does; 0 for none. */
+  rotationTime: number;
+}
+
+/** Where the pick lands, in normalized device coordinates, and how far it reaches. */
+export interface PickRay {
+  viewProjection: mat4;
+  x: number;
+  y: number;
+  /** Pick radius in NDC along each axis, so it stays round on a non-square canvas. */
+  radiusX: number;
+  radiusY: number;
+}
+
+/**
+ * World position of the star or nebula knot that lands within the pick radius and lies nearest
+ * the camera, or null when nothing does. Dust is skipped since it only dims what is behind it.
+ * Stars are moved along their orbits exactly as the vertex shader moves them, honouring the
+ * rigid ranges, so the pick matches the frame on screen while the galaxy turns.
+ */
+export function pickStar(
+  sources: PickSource[],
+  ray: PickRay,
+  rotation: RotationSettings
+): vec3 | null {
+  const clip = mat4.create();
+  let best: vec3 | null = null;
+  let bestDepth = Infinity;
+
+  for (const source of sources) {
+    const { data, count } = source.stars;
+    const m = mat4.multiply(clip, ray.viewProjection, source.model);
+    for (let i = 0; i < count; i++) {
+      const o = i * floatsPerStar;
+      if (data[o + 5] === ParticleType.dust) continue;
+      let x = data[o];
+      const y = data[o + 1];
+      let z = data[o + 2];
+      const r = Math.hypot(x, z);
+      const range = source.rigid.find((s) => i >= s.offset && i < s.offset + s.count);
+      const orbitRadius = range ? range.patternRadius : r;
+      if (source.rotationTime !== 0 && orbitRadius !== null && r > 0) {
+        const omega = angularVelocity(rotation, orbitRadius);
+        const angle = Math.atan2(z, x) - omega * source.rotationTime;
+        x = r * Math.cos(angle);
+        z = r * Math.sin(angle);
+      }
+      const w = m[3] * x + m[7] * y + m[11] * z + m[15];
+      if (w <= 0 || w >= bestDepth) continue;
+      const dx = ((m[0] * x + m[4] * y + m[8] * z + m[12]) / w - ray.x) / ray.radiusX;
+      const dy = ((m[1] * x + m[5] * y + m[9] * z + m[13]) / w - ray.y) / ray.radiusY;
+      if (dx * dx + dy * dy > 1) continue;
+      bestDepth = w;
+      best = vec3.transformMat4(vec3.create(), vec3.fromValues(x, y, z), source.model);
+    }
+  }
+  return best;
+}
@@ -0,0 +1,74 @@
+import { Random } from "./random";
+
+/** Temperature span encoded into colorIndex01 in "population" color mode (log scale). */
+export const temperatureRange = { min: 2000, max: 40000 };
+
+const logMin = Math.log(temperatureRange.min);
+const logSpan = Math.log(temperatureRange.max) - logMin;
+
+export function temperatureToIndex(kelvin: number) {
+  return clamp((Math.log(kelvin) - logMin) / logSpan, 0, 1);
+}
+
+export function indexToTemperature(index01: number) {
+  return Math.exp(logMin + clamp(index01, 0, 1) * logSpan);
+}
+
+/**
+ * Effective temperature of the main-sequence turnoff for a population of the given age.
+ * From lifetime ~ 10 Gyr * M^-2.5 and T ~ 5800 K * M^0.55: the Sun at 10 Gyr, B stars at
+ * ~10 Myr, A stars around 1 Gyr.
+ */
+export function turnoffTemperature(ageGyr: number) {
+  const age = Math.max(1e-4, ageGyr);
+  return clamp(5800 * Math.pow(age / 10, -0.22), 3000, temperatureRange.max);
+}
+
+/** Light-weighted stellar temperature drawn from a population of the given age. */
+export function sampleStellarTemperature(random: Random, ageGyr: number) {
+  // Evolved populations put a good share of their light into cool red giants.
+  if (ageGyr > 0.5 && random() < 0.2) return 3500 + random() * 1300;
+  // Otherwise main-sequence stars, weighted toward the bright end near the turnoff.
+  const turnoff = turnoffTemperature(ageGyr);
+  return Math.max(3000, turnoff * (1 - 0.45 * Math.pow(random(), 2)));
+}
+
+/**
+ * Picks young or old, jitters the age, and returns the star's temperature as colorIndex01.
+ * youngFraction is the chance the star belongs to the young population.
+ */
+export function samplePopulationColor(
+  random: Random,
+  youngFraction: number,
+  youngAgeGyr: number,
+  oldAgeGyr: number
+) {
+  const age =
+    random() < youngFraction ? youngAgeGyr * (0.5 + random()) : oldAgeGyr * (0.7 + random() * 0.6);
+  return temperatureToIndex(sampleStellarTemperature(random, age));
+}
+
+/**
+ * Approximate sRGB color of a blackbody (Tanner Helland's fit to the CIE data), normalized so
+ * the brightest channel is 1.
+ */
+export function blackbodyColor(kelvin: number): [number, number, number] {
+  const t = clamp(kelvin, 1000, 40000) / 100;
+  const r = t <= 66 ? 255 : 329.698727446 * Math.pow(t - 60, -0.1332047592);
+  const g =
+    t <= 66
+      ? 99.4708025861 * Math.log(t) - 161.1195681661
+      : 288.1221695283 * Math.pow(t - 60, -0.0755148492);
+  const b = t >= 66 ? 255 : t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+  const rgb: [number, number, number] = [
+    clamp(r, 0, 255) / 255,
+    clamp(g, 0, 255) / 255,
+    clamp(b, 0, 255) / 255
+  ];
+  const peak = Math.max(rgb[0], rgb[1], rgb[2], 1e-6);
+  return [rgb[0] / peak, rgb[1] / peak, rgb[2] / peak];
+}
+
+function clamp(v: number, min: number, max: number) {
+  return Math.min(Math.max(v, min), max);
+}
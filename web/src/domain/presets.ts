@@ -1,8 +1,31 @@
+import { defaultGradient, Gradient } from "./palette";
 import { GalaxyParameters, defaultParameters } from "./parameters";
 
+/** Disk and bulge fields every preset spells out. */
+type CorePresetKey =
+  | "starCount"
+  | "armCount"
+  | "armTwist"
+  | "armSpread"
+  | "diskRadius"
+  | "verticalThickness"
+  | "noise"
+  | "coreFalloff"
+  | "brightness"
+  | "bulgeRadius"
+  | "bulgeStarCount"
+  | "bulgeFalloff"
+  | "bulgeVerticalScale"
+  | "bulgeBrightness";
+
+/** Optional components (bar, seed, ...) fall back to the defaults when a preset omits them. */
+export type PresetParameters = Pick<GalaxyParameters, CorePresetKey> & Partial<GalaxyParameters>;
+
 export interface Preset {
   name: string;
-  params: GalaxyParameters;
+  params: PresetParameters;
+  /** Colors for "palette" color mode; presets without one use the default gradient. */
+  palette?: Gradient;
 }
 
 export const presets: Preset[] = [
@@ -24,7 +47,24 @@ export const presets: Preset[] = [
       bulgeFalloff: 1.6,
       bulgeVerticalScale: 1.2,
       bulgeBrightness: 3.2,
-    }
+      starFormationRate: 0.02,
+      youngAge: 0.5,
+      diskAge: 11,
+      bulgeAge: 12,
+      haloStarCount: 30000,
+      haloRadius: 130,
+      haloProfile: 3.3,
+      haloBrightness: 0.35,
+      globularCount: 160,
+      globularStarCount: 350,
+      globularRadius: 0.6,
+      globularBrightness: 1.2,
+    },
+    palette: [
+      { position: 0, color: [1.0, 0.88, 0.7] },
+      { position: 0.4, color: [1.0, 0.82, 0.62] },
+      { position: 1, color: [0.9, 0.72, 0.55] }
+    ]
   },
   {
     name: "Lenticular (S0)",
@@ -43,6 +83,18 @@ export const presets: Preset[] = [
       bulgeFalloff: 2.1,
       bulgeVerticalScale: 0.8,
       bulgeBrightness: 2.8,
+      starFormationRate: 0.1,
+      youngAge: 0.3,
+      diskAge: 9,
+      bulgeAge: 11,
+      haloStarCount: 15000,
+      haloRadius: 110,
+      haloProfile: 3.5,
+      haloBrightness: 0.3,
+      globularCount: 60,
+      globularStarCount: 300,
+      globularRadius: 0.55,
+      globularBrightness: 1.1,
     }
   },
   {
@@ -62,6 +114,9 @@ export const presets: Preset[] = [
       bulgeFalloff: 2.4,
       bulgeVerticalScale: 0.9,
       bulgeBrightness: 2.8,
+      dustDensity: 0.2,
+      dustWidth: 0.06,
+      dustOpacity: 0.3,
     }
   },
   {
@@ -81,6 +136,17 @@ export const presets: Preset[] = [
       bulgeFalloff: 2.2,
       bulgeVerticalScale: 0.8,
       bulgeBrightness: 2.4,
+      dustDensity: 0.3,
+      dustWidth: 0.07,
+      dustOpacity: 0.4,
+      haloStarCount: 8000,
+      haloRadius: 110,
+      haloProfile: 3.5,
+      haloBrightness: 0.25,
+      globularCount: 40,
+      globularStarCount: 300,
+      globularRadius: 0.5,
+      globularBrightness: 1.0,
     }
   },
   {
@@ -100,6 +166,12 @@ export const presets: Preset[] = [
       bulgeFalloff: 2.0,
       bulgeVerticalScale: 0.7,
       bulgeBrightness: 2.0,
+      dustDensity: 0.3,
+      dustWidth: 0.09,
+      dustOpacity: 0.35,
+      hiiRegionCount: 220,
+      hiiClumpSize: 0.7,
+      hiiBrightness: 1.4,
     }
   },
   {
@@ -119,6 +191,10 @@ export const presets: Preset[] = [
       bulgeFalloff: 1.6,
       bulgeVerticalScale: 0.6,
       bulgeBrightness: 1.7,
+      diskFlare: 1.8,
+      warpAmplitude: 5,
+      warpStart: 0.55,
+      warpAngle: 30,
     }
   },
   {
@@ -126,45 +202,61 @@ export const presets: Preset[] = [
     params: {
       starCount: 82000,
       armCount: 2,
-      armTwist: 9,
+      armTwist: 6,
       armSpread: 0.2,
       diskRadius: 48,
       verticalThickness: 0.45,
       noise: 0.18,
       coreFalloff: 2.0,
       brightness: 1.2,
-      bulgeRadius: 9,
-      bulgeStarCount: 36000,
+      bulgeRadius: 7,
+      bulgeStarCount: 26000,
       bulgeFalloff: 2.6,
       bulgeVerticalScale: 1.0,
       bulgeBrightness: 3.0,
+      barLength: 16,
+      barAxisRatio: 0.32,
+      barStarCount: 24000,
+      barBrightness: 2.4,
+      barAngle: 25,
+      dustDensity: 0.2,
+      dustWidth: 0.06,
+      dustOpacity: 0.3,
     }
   },
   {
     name: "Barred Spiral (SBb)",
     params: {
       starCount: 80000,
-      armCount: 3,
-      armTwist: 7.5,
+      armCount: 2,
+      armTwist: 5.5,
       armSpread: 0.28,
       diskRadius: 52,
       verticalThickness: 0.42,
       noise: 0.22,
       coreFalloff: 1.9,
       brightness: 1.1,
-      bulgeRadius: 7.5,
-      bulgeStarCount: 30000,
+      bulgeRadius: 6,
+      bulgeStarCount: 22000,
       bulgeFalloff: 2.2,
       bulgeVerticalScale: 0.9,
       bulgeBrightness: 2.6,
+      barLength: 14,
+      barAxisRatio: 0.28,
+      barStarCount: 20000,
+      barBrightness: 2.0,
+      barAngle: 30,
+      dustDensity: 0.28,
+      dustWidth: 0.07,
+      dustOpacity: 0.38,
     }
   },
   {
     name: "Barred Spiral (SBc)",
     params: {
       starCount: 78000,
-      armCount: 4,
-      armTwist: 6,
+      armCount: 2,
+      armTwist: 4.5,
       armSpread: 0.36,
       diskRadius: 56,
       verticalThickness: 0.38,
@@ -172,10 +264,21 @@ export const presets: Preset[] = [
       coreFalloff: 1.6,
       brightness: 1.0,
       bulgeRadius: 5,
-      bulgeStarCount: 20000,
+      bulgeStarCount: 14000,
       bulgeFalloff: 2.0,
       bulgeVerticalScale: 0.8,
       bulgeBrightness: 2.2,
+      barLength: 11,
+      barAxisRatio: 0.26,
+      barStarCount: 15000,
+      barBrightness: 1.7,
+      barAngle: 35,
+      dustDensity: 0.28,
+      dustWidth: 0.09,
+      dustOpacity: 0.34,
+      hiiRegionCount: 200,
+      hiiClumpSize: 0.7,
+      hiiBrightness: 1.4,
     }
   },
   {
@@ -183,7 +286,7 @@ export const presets: Preset[] = [
     params: {
       starCount: 72000,
       armCount: 4,
-      armTwist: 4.5,
+      armTwist: 3.5,
       armSpread: 0.44,
       diskRadius: 60,
       verticalThickness: 0.42,
@@ -191,10 +294,15 @@ export const presets: Preset[] = [
       coreFalloff: 1.3,
       brightness: 0.95,
       bulgeRadius: 3.2,
-      bulgeStarCount: 14000,
+      bulgeStarCount: 9000,
       bulgeFalloff: 1.7,
       bulgeVerticalScale: 0.7,
       bulgeBrightness: 1.9,
+      barLength: 8,
+      barAxisRatio: 0.3,
+      barStarCount: 10000,
+      barBrightness: 1.3,
+      barAngle: 40,
     }
   },
   {
@@ -214,7 +322,22 @@ export const presets: Preset[] = [
       bulgeFalloff: 1.2,
       bulgeVerticalScale: 1.1,
       bulgeBrightness: 1.3,
-    }
+      hiiRegionCount: 260,
+      hiiClumpSize: 0.9,
+      hiiBrightness: 1.5,
+      starFormationRate: 1.8,
+      youngAge: 0.01,
+      diskAge: 3,
+      bulgeAge: 6,
+      noiseOctaves: 3,
+      noiseFrequency: 2.5,
+      noiseContrast: 2.6,
+    },
+    palette: [
+      { position: 0, color: [0.8, 0.88, 1.0] },
+      { position: 0.6, color: [0.5, 0.65, 1.0] },
+      { position: 1, color: [0.35, 0.5, 1.0] }
+    ]
   },
   {
     name: "Irregular (Irr II)",
@@ -252,7 +375,23 @@ export const presets: Preset[] = [
       bulgeFalloff: 2.2,
       bulgeVerticalScale: 0.9,
       bulgeBrightness: 1.6,
-    }
+      starFormationRate: 0.05,
+      youngAge: 0.5,
+      diskAge: 9,
+      bulgeAge: 10,
+      haloStarCount: 6000,
+      haloRadius: 70,
+      haloProfile: 3.5,
+      haloBrightness: 0.3,
+      globularCount: 20,
+      globularStarCount: 250,
+      globularRadius: 0.5,
+      globularBrightness: 1.0,
+    },
+    palette: [
+      { position: 0, color: [1.0, 0.9, 0.78] },
+      { position: 1, color: [0.92, 0.8, 0.65] }
+    ]
   },
   {
     name: "Dwarf Spheroidal (dSph)",
@@ -271,6 +410,10 @@ export const presets: Preset[] = [
       bulgeFalloff: 1.4,
       bulgeVerticalScale: 1.0,
       bulgeBrightness: 1.2,
+      starFormationRate: 0,
+      youngAge: 0.5,
+      diskAge: 12,
+      bulgeAge: 12.5,
     }
   },
   {
@@ -290,6 +433,13 @@ export const presets: Preset[] = [
       bulgeFalloff: 1.2,
       bulgeVerticalScale: 1.1,
       bulgeBrightness: 1.1,
+      starFormationRate: 1.6,
+      youngAge: 0.01,
+      diskAge: 3,
+      bulgeAge: 5,
+      noiseOctaves: 3,
+      noiseFrequency: 2,
+      noiseContrast: 2.8,
     }
   },
   {
@@ -347,6 +497,101 @@ export const presets: Preset[] = [
       bulgeFalloff: 1.5,
       bulgeVerticalScale: 0.9,
       bulgeBrightness: 1.1,
+      shellStarCount: 26000,
+      shellCount: 6,
+      shellRadius: 66,
+      shellWidth: 3.5,
+      shellInclination: 12,
+      starFormationRate: 0.1,
+      diskAge: 9,
+      bulgeAge: 11,
+    }
+  },
+  {
+    name: "Ring Galaxy (Hoag-type)",
+    params: {
+      starCount: 6000,
+      armCount: 1,
+      armTwist: 0.5,
+      armSpread: 1,
+      diskRadius: 10,
+      verticalThickness: 1.2,
+      noise: 0.4,
+      coreFalloff: 1.6,
+      brightness: 0.5,
+      bulgeRadius: 6,
+      bulgeStarCount: 40000,
+      bulgeFalloff: 2.4,
+      bulgeVerticalScale: 0.95,
+      bulgeBrightness: 2.4,
+      outerRingStarCount: 36000,
+      outerRingRadius: 38,
+      outerRingWidth: 3.2,
+      starFormationRate: 1.2,
+      diskAge: 9,
+      bulgeAge: 11,
+    }
+  },
+  {
+    name: "Polar Ring",
+    params: {
+      starCount: 55000,
+      armCount: 2,
+      armTwist: 4,
+      armSpread: 0.14,
+      diskRadius: 24,
+      verticalThickness: 0.35,
+      noise: 0.1,
+      coreFalloff: 2.2,
+      brightness: 1.0,
+      bulgeRadius: 7,
+      bulgeStarCount: 30000,
+      bulgeFalloff: 2.1,
+      bulgeVerticalScale: 0.8,
+      bulgeBrightness: 2.6,
+      polarRingStarCount: 24000,
+      polarRingRadius: 32,
+      polarRingWidth: 3,
+      polarRingInclination: 86,
+      starFormationRate: 0.15,
+      diskAge: 9,
+      bulgeAge: 11,
+    }
+  },
+  {
+    name: "Ringed Barred Spiral (SB(r))",
+    params: {
+      starCount: 70000,
+      armCount: 2,
+      armTwist: 3.2,
+      armSpread: 0.3,
+      diskRadius: 50,
+      verticalThickness: 0.42,
+      noise: 0.22,
+      coreFalloff: 1.9,
+      brightness: 1.05,
+      bulgeRadius: 5,
+      bulgeStarCount: 20000,
+      bulgeFalloff: 2.2,
+      bulgeVerticalScale: 0.9,
+      bulgeBrightness: 2.5,
+      barLength: 15,
+      barAxisRatio: 0.28,
+      barStarCount: 20000,
+      barBrightness: 2.0,
+      barAngle: 30,
+      nuclearRingStarCount: 5000,
+      nuclearRingRadius: 2.6,
+      nuclearRingWidth: 0.45,
+      innerRingStarCount: 16000,
+      innerRingRadius: 15,
+      innerRingWidth: 1.3,
+      outerRingStarCount: 18000,
+      outerRingRadius: 44,
+      outerRingWidth: 2.4,
+      dustDensity: 0.22,
+      dustWidth: 0.07,
+      dustOpacity: 0.35,
     }
   },
   {
@@ -366,6 +611,10 @@ export const presets: Preset[] = [
       bulgeFalloff: 1.3,
       bulgeVerticalScale: 1.2,
       bulgeBrightness: 1.0,
+      diskFlare: 2.5,
+      warpAmplitude: 7,
+      warpStart: 0.45,
+      warpAngle: 0,
     }
   },
   {
@@ -404,7 +653,12 @@ export const presets: Preset[] = [
       bulgeFalloff: 2.0,
       bulgeVerticalScale: 1.0,
       bulgeBrightness: 6.0,
-    }
+    },
+    palette: [
+      { position: 0, color: [0.85, 0.9, 1.0] },
+      { position: 0.15, color: [1.0, 0.95, 0.88] },
+      { position: 1, color: [0.6, 0.7, 1.0] }
+    ]
   },
   {
     name: "Blazar",
@@ -480,7 +734,19 @@ export const presets: Preset[] = [
       bulgeFalloff: 1.6,
       bulgeVerticalScale: 1.0,
       bulgeBrightness: 3.5,
-    }
+      hiiRegionCount: 900,
+      hiiClumpSize: 1.0,
+      hiiBrightness: 2.2,
+      starFormationRate: 3,
+      youngAge: 0.005,
+      diskAge: 4,
+      bulgeAge: 9,
+    },
+    palette: [
+      { position: 0, color: [1.0, 0.9, 0.95] },
+      { position: 0.3, color: [0.75, 0.85, 1.0] },
+      { position: 1, color: [0.4, 0.55, 1.0] }
+    ]
   },
   {
     name: "Post-Starburst (E+A / K+A)",
@@ -499,6 +765,10 @@ export const presets: Preset[] = [
       bulgeFalloff: 2.0,
       bulgeVerticalScale: 1.0,
       bulgeBrightness: 2.2,
+      starFormationRate: 1.8,
+      youngAge: 0.8,
+      diskAge: 8,
+      bulgeAge: 10,
     }
   },
   {
@@ -518,7 +788,24 @@ export const presets: Preset[] = [
       bulgeFalloff: 1.3,
       bulgeVerticalScale: 1.2,
       bulgeBrightness: 3.0,
-    }
+      starFormationRate: 0.01,
+      youngAge: 0.5,
+      diskAge: 12,
+      bulgeAge: 12.5,
+      haloStarCount: 60000,
+      haloRadius: 200,
+      haloProfile: 3.0,
+      haloBrightness: 0.4,
+      globularCount: 400,
+      globularStarCount: 300,
+      globularRadius: 0.6,
+      globularBrightness: 1.3,
+    },
+    palette: [
+      { position: 0, color: [1.0, 0.9, 0.72] },
+      { position: 0.3, color: [1.0, 0.84, 0.6] },
+      { position: 1, color: [0.85, 0.68, 0.5] }
+    ]
   },
   {
     name: "Brightest Cluster Galaxy (BCG)",
@@ -537,6 +824,18 @@ export const presets: Preset[] = [
       bulgeFalloff: 1.4,
       bulgeVerticalScale: 1.1,
       bulgeBrightness: 2.8,
+      starFormationRate: 0.01,
+      youngAge: 0.5,
+      diskAge: 12,
+      bulgeAge: 12.5,
+      haloStarCount: 50000,
+      haloRadius: 180,
+      haloProfile: 3.1,
+      haloBrightness: 0.4,
+      globularCount: 320,
+      globularStarCount: 300,
+      globularRadius: 0.6,
+      globularBrightness: 1.25,
     }
   },
   {
@@ -556,6 +855,9 @@ export const presets: Preset[] = [
       bulgeFalloff: 1.7,
       bulgeVerticalScale: 0.8,
       bulgeBrightness: 2.0,
+      noiseOctaves: 4,
+      noiseFrequency: 7,
+      noiseContrast: 2.2,
     }
   },
   {
@@ -575,6 +877,12 @@ export const presets: Preset[] = [
       bulgeFalloff: 2.3,
       bulgeVerticalScale: 0.9,
       bulgeBrightness: 2.5,
+      dustDensity: 0.35,
+      dustWidth: 0.06,
+      dustOpacity: 0.45,
+      hiiRegionCount: 500,
+      hiiClumpSize: 0.7,
+      hiiBrightness: 1.8,
     }
   },
   {
@@ -594,6 +902,10 @@ export const presets: Preset[] = [
       bulgeFalloff: 1.8,
       bulgeVerticalScale: 0.8,
       bulgeBrightness: 1.6,
+      starFormationRate: 0.12,
+      youngAge: 0.15,
+      diskAge: 9,
+      bulgeAge: 11,
     }
   },
   {
@@ -601,7 +913,7 @@ export const presets: Preset[] = [
     params: {
       starCount: 80000,
       armCount: 2,
-      armTwist: 8,
+      armTwist: 6,
       armSpread: 0.25,
       diskRadius: 50,
       verticalThickness: 0.45,
@@ -609,10 +921,18 @@ export const presets: Preset[] = [
       coreFalloff: 1.6,
       brightness: 1.1,
       bulgeRadius: 6,
-      bulgeStarCount: 25000,
+      bulgeStarCount: 18000,
       bulgeFalloff: 2.2,
       bulgeVerticalScale: 0.9,
       bulgeBrightness: 2.2,
+      barLength: 13,
+      barAxisRatio: 0.3,
+      barStarCount: 18000,
+      barBrightness: 1.9,
+      barAngle: 20,
+      dustDensity: 0.25,
+      dustWidth: 0.07,
+      dustOpacity: 0.35,
     }
   },
   {
@@ -657,5 +977,9 @@ export const presets: Preset[] = [
 
 export function findPreset(name: string): GalaxyParameters | null {
   const preset = presets.find((p) => p.name === name);
-  return preset ? { ...preset.params } : null;
+  return preset ? { ...defaultParameters, ...preset.params } : null;
+}
+
+export function findPresetPalette(name: string): Gradient {
+  return presets.find((p) => p.name === name)?.palette ?? defaultGradient;
 }
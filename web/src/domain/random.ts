@@ -0,0 +1,61 @@
+export type Random = () => number;
+
+/** Sub-stream ids; each galaxy component samples from its own stream. */
+export const RandomStream = {
+  disk: 1,
+  bulge: 2,
+  bar: 3,
+  dust: 4,
+  hii: 5,
+  halo: 6,
+  globular: 7,
+  /** one substream per cluster, so a cluster's center doesn't depend on sharding */
+  globularCenters: 8,
+  nuclearRing: 9,
+  innerRing: 10,
+  outerRing: 11,
+  polarRing: 12,
+  shells: 13,
+  /** shuffles the permutation table of the clump noise field */
+  noiseField: 14
+} as const;
+
+export type RandomStreamId = (typeof RandomStream)[keyof typeof RandomStream];
+
+/** mulberry32: tiny, fast and fully deterministic across engines (pure 32-bit integer math). */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Mixes a stream id into the galaxy seed so components don't share a sequence. */
+export function deriveSeed(seed: number, stream: number): number {
+  let h = (seed ^ Math.imul(stream + 1, 0x9e3779b9)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/** Stream for one component; shards of the same component use distinct substreams. */
+export function createStream(seed: number, stream: RandomStreamId, substream = 0): Random {
+  return createRandom(deriveSeed(deriveSeed(seed, stream), substream));
+}
+
+export function nextGaussian(rand: Random) {
+  const u1 = 1 - rand();
+  const u2 = 1 - rand();
+  return Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
+}
+
+/** Fresh seed for rerolls; the only place non-deterministic randomness is allowed. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+export const maxSeed = 4294967295;
@@ -0,0 +1,48 @@
+/**
+ * Rotation curve shapes for the animated rotation mode. "flat" and "keplerian" both rise as a
+ * solid body inside the core radius and differ only outside it.
+ */
+export type RotationCurve = "solid" | "flat" | "keplerian";
+
+export const rotationCurves: { value: RotationCurve; label: string }[] = [
+  { value: "solid", label: "Solid body (no winding)" },
+  { value: "flat", label: "Solid core + flat outer curve" },
+  { value: "keplerian", label: "Solid core + Keplerian fall-off" }
+];
+
+export interface RotationSettings {
+  curve: RotationCurve;
+  /** radius where the solid-body rise turns over, in galaxy units */
+  coreRadius: number;
+  /** circular speed at the core radius, galaxy units per second at speed 1 */
+  velocity: number;
+  /** animation time multiplier */
+  speed: number;
+}
+
+export const defaultRotation: RotationSettings = {
+  curve: "flat",
+  coreRadius: 8,
+  velocity: 10,
+  speed: 1
+};
+
+/** Circular speed at radius r; the vertex shader evaluates the same curve. */
+export function circularVelocity(settings: RotationSettings, r: number) {
+  const core = Math.max(1e-3, settings.coreRadius);
+  if (settings.curve === "solid" || r < core) return (settings.velocity * r) / core;
+  if (settings.curve === "flat") return settings.velocity;
+  return settings.velocity * Math.sqrt(core / r);
+}
+
+/** Angular velocity at radius r, as the vertex shader computes it (finite at r = 0). */
+export function angularVelocity(settings: RotationSettings, r: number) {
+  const core = Math.max(1e-3, settings.coreRadius);
+  return r < core ? settings.velocity / core : circularVelocity(settings, r) / r;
+}
+
+/** Seconds of wall time per orbit at radius r, or Infinity when nothing moves. */
+export function orbitalPeriod(settings: RotationSettings, r: number) {
+  const v = circularVelocity(settings, r) * settings.speed;
+  return v > 0 ? (2 * Math.PI * r) / v : Infinity;
+}
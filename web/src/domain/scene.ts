@@ -0,0 +1,59 @@
+import { mat4 } from "gl-matrix";
+import { Gradient } from "./palette";
+import { GalaxyParameters } from "./parameters";
+
+/** Where a galaxy sits in the scene. Angles are in degrees. */
+export interface GalaxyTransform {
+  position: [number, number, number];
+  /** Tilt of the disk about the x axis; 0 is face-on when seen from above, 90 is edge-on. */
+  inclination: number;
+  /** Spin about the scene's up axis, applied after the tilt. */
+  positionAngle: number;
+  scale: number;
+}
+
+export interface SceneGalaxy {
+  id: string;
+  name: string;
+  /** Preset the parameters were last loaded from, for the preset picker. */
+  preset: string;
+  params: GalaxyParameters;
+  /** Stops of the gradient "palette" color mode draws with. */
+  palette: Gradient;
+  transform: GalaxyTransform;
+}
+
+export const identityTransform: GalaxyTransform = {
+  position: [0, 0, 0],
+  inclination: 0,
+  positionAngle: 0,
+  scale: 1
+};
+
+/** translate * rotateY(positionAngle) * rotateX(inclination) * scale */
+export function galaxyModelMatrix(transform: GalaxyTransform, out = mat4.create()) {
+  mat4.fromTranslation(out, transform.position);
+  mat4.rotateY(out, out, degToRad(transform.positionAngle));
+  mat4.rotateX(out, out, degToRad(transform.inclination));
+  const s = transform.scale;
+  return mat4.scale(out, out, [s, s, s]);
+}
+
+/**
+ * Placement for the n-th galaxy added to a scene: companions spiral outward around the origin
+ * at golden-angle steps so they don't pile up on each other.
+ */
+export function companionTransform(index: number): GalaxyTransform {
+  const angle = index * 2.39996;
+  const radius = 70 + index * 12;
+  return {
+    position: [Math.cos(angle) * radius, 0, Math.sin(angle) * radius],
+    inclination: 35,
+    positionAngle: (index * 47) % 360,
+    scale: 0.5
+  };
+}
+
+function degToRad(v: number) {
+  return (v * Math.PI) / 180;
+}
@@ -0,0 +1,189 @@
+import { Palette, particleColor } from "./palette";
+import { floatsPerStar, StarBuffer } from "./parameters";
+
+export type ExportFormat = "ply" | "csv" | "gltf";
+
+export interface ExportFormatInfo {
+  value: ExportFormat;
+  label: string;
+  extension: string;
+  mime: string;
+}
+
+export const exportFormats: ExportFormatInfo[] = [
+  { value: "ply", label: "PLY (binary)", extension: "ply", mime: "application/octet-stream" },
+  { value: "csv", label: "CSV", extension: "csv", mime: "text/csv" },
+  { value: "gltf", label: "glTF 2.0 points (.glb)", extension: "glb", mime: "model/gltf-binary" }
+];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Dust particles only absorb light; most tools have no use for them. */
+  includeDust: boolean;
+}
+
+export const defaultExportOptions: ExportOptions = { format: "ply", includeDust: false };
+
+/**
+ * Bytes per vertex in the PLY body: float x, y, z, intensity, then uchar red, green, blue and
+ * the particle type.
+ */
+export const plyStride = 20;
+
+/** Bytes per vertex in the glTF buffer: float POSITION, COLOR_0 (linear RGB) and _INTENSITY. */
+export const gltfStride = 28;
+
+const encoder = new TextEncoder();
+
+export function plyHeader(count: number) {
+  const lines = [
+    "ply",
+    "format binary_little_endian 1.0",
+    "comment Nebula Galaxy export; y is up, colors resolved through the active palette",
+    `element vertex ${count}`,
+    "property float x",
+    "property float y",
+    "property float z",
+    "property float intensity",
+    "property uchar red",
+    "property uchar green",
+    "property uchar blue",
+    "property uchar type",
+    "end_header"
+  ];
+  return encoder.encode(lines.join("\n") + "\n");
+}
+
+export function encodePly(stars: StarBuffer, palette: Palette) {
+  const bytes = new ArrayBuffer(stars.count * plyStride);
+  const view = new DataView(bytes);
+  const rgb: [number, number, number] = [0, 0, 0];
+  for (let i = 0; i < stars.count; i++) {
+    const s = i * floatsPerStar;
+    const o = i * plyStride;
+    const type = stars.data[s + 5];
+    particleColor(palette, stars.data[s + 4], type, rgb);
+    view.setFloat32(o, stars.data[s], true);
+    view.setFloat32(o + 4, stars.data[s + 1], true);
+    view.setFloat32(o + 8, stars.data[s + 2], true);
+    view.setFloat32(o + 12, stars.data[s + 3], true);
+    view.setUint8(o + 16, toByte(rgb[0]));
+    view.setUint8(o + 17, toByte(rgb[1]));
+    view.setUint8(o + 18, toByte(rgb[2]));
+    view.setUint8(o + 19, type);
+  }
+  return bytes;
+}
+
+export function csvHeader() {
+  return encoder.encode("x,y,z,intensity,red,green,blue,type\n");
+}
+
+/** One row per particle; colors are 0-1 display values from the palette. */
+export function encodeCsv(stars: StarBuffer, palette: Palette) {
+  const rows: string[] = [];
+  const rgb: [number, number, number] = [0, 0, 0];
+  for (let i = 0; i < stars.count; i++) {
+    const s = i * floatsPerStar;
+    const type = stars.data[s + 5];
+    particleColor(palette, stars.data[s + 4], type, rgb);
+    rows.push(
+      `${round(stars.data[s])},${round(stars.data[s + 1])},${round(stars.data[s + 2])},` +
+        `${round(stars.data[s + 3])},${round(rgb[0])},${round(rgb[1])},${round(rgb[2])},${type}`
+    );
+  }
+  return encoder.encode(rows.length > 0 ? rows.join("\n") + "\n" : "");
+}
+
+/** Interleaved glTF vertex data; `bounds` (min xyz, max xyz) is widened to cover the stars. */
+export function encodeGltfVertices(stars: StarBuffer, palette: Palette, bounds: Float64Array) {
+  const bytes = new ArrayBuffer(stars.count * gltfStride);
+  const out = new Float32Array(bytes);
+  const floats = gltfStride / 4;
+  const rgb: [number, number, number] = [0, 0, 0];
+  for (let i = 0; i < stars.count; i++) {
+    const s = i * floatsPerStar;
+    const o = i * floats;
+    particleColor(palette, stars.data[s + 4], stars.data[s + 5], rgb);
+    for (let a = 0; a < 3; a++) {
+      const v = stars.data[s + a];
+      out[o + a] = v;
+      bounds[a] = Math.min(bounds[a], v);
+      bounds[a + 3] = Math.max(bounds[a + 3], v);
+    }
+    out[o + 3] = srgbToLinear(rgb[0]);
+    out[o + 4] = srgbToLinear(rgb[1]);
+    out[o + 5] = srgbToLinear(rgb[2]);
+    out[o + 6] = stars.data[s + 3];
+  }
+  return bytes;
+}
+
+export function emptyBounds() {
+  return Float64Array.of(Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity);
+}
+
+/**
+ * Everything in a .glb before the vertex bytes: the file header, the JSON chunk describing a
+ * single POINTS primitive, and the BIN chunk header. The vertex data follows unchanged.
+ */
+export function gltfPrefix(count: number, bounds: Float64Array, name: string) {
+  const byteLength = count * gltfStride;
+  // Accessor bounds must hold the float32 values actually stored
+  const min = Array.from(bounds.subarray(0, 3), Math.fround);
+  const max = Array.from(bounds.subarray(3, 6), Math.fround);
+  const accessor = (byteOffset: number, type: string) => ({
+    bufferView: 0,
+    byteOffset,
+    componentType: 5126,
+    count,
+    type
+  });
+  const json = {
+    asset: { version: "2.0", generator: "Nebula Galaxy" },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0, name }],
+    meshes: [
+      {
+        name,
+        primitives: [{ attributes: { POSITION: 0, COLOR_0: 1, _INTENSITY: 2 }, mode: 0 }]
+      }
+    ],
+    buffers: [{ byteLength }],
+    bufferViews: [{ buffer: 0, byteOffset: 0, byteLength, byteStride: gltfStride, target: 34962 }],
+    accessors: [
+      { ...accessor(0, "VEC3"), min, max },
+      accessor(12, "VEC3"),
+      accessor(24, "SCALAR")
+    ]
+  };
+
+  // Chunks are 4-byte aligned; JSON is padded with spaces
+  const jsonBytes = encoder.encode(JSON.stringify(json));
+  const jsonLength = Math.ceil(jsonBytes.length / 4) * 4;
+
+  const prefix = new ArrayBuffer(12 + 8 + jsonLength + 8);
+  const view = new DataView(prefix);
+  view.setUint32(0, 0x46546c67, true); // "glTF"
+  view.setUint32(4, 2, true);
+  view.setUint32(8, prefix.byteLength + byteLength, true);
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, 0x4e4f534a, true); // "JSON"
+  new Uint8Array(prefix, 20, jsonLength).fill(0x20).set(jsonBytes);
+  view.setUint32(20 + jsonLength, byteLength, true);
+  view.setUint32(24 + jsonLength, 0x004e4942, true); // "BIN"
+  return prefix;
+}
+
+function srgbToLinear(v: number) {
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function toByte(v: number) {
+  return Math.round(Math.min(Math.max(v, 0), 1) * 255);
+}
+
+function round(v: number) {
+  return Number(v.toFixed(4));
+}
@@ -0,0 +1,174 @@
+/** Encoded video frame as handed out by a VideoEncoder, copied out of its EncodedVideoChunk. */
+export interface VideoPacket {
+  data: Uint8Array<ArrayBuffer>;
+  /** microseconds */
+  timestamp: number;
+  keyFrame: boolean;
+}
+
+export interface WebmTrack {
+  /** Matroska codec id, "V_VP9" or "V_VP8". */
+  codecId: string;
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+// EBML element ids, written with their length marker bits as in the Matroska spec
+const ids = {
+  ebml: [0x1a, 0x45, 0xdf, 0xa3],
+  ebmlVersion: [0x42, 0x86],
+  ebmlReadVersion: [0x42, 0xf7],
+  ebmlMaxIdLength: [0x42, 0xf2],
+  ebmlMaxSizeLength: [0x42, 0xf3],
+  docType: [0x42, 0x82],
+  docTypeVersion: [0x42, 0x87],
+  docTypeReadVersion: [0x42, 0x85],
+  segment: [0x18, 0x53, 0x80, 0x67],
+  info: [0x15, 0x49, 0xa9, 0x66],
+  timecodeScale: [0x2a, 0xd7, 0xb1],
+  muxingApp: [0x4d, 0x80],
+  writingApp: [0x57, 0x41],
+  duration: [0x44, 0x89],
+  tracks: [0x16, 0x54, 0xae, 0x6b],
+  trackEntry: [0xae],
+  trackNumber: [0xd7],
+  trackUid: [0x73, 0xc5],
+  trackType: [0x83],
+  codecId: [0x86],
+  defaultDuration: [0x23, 0xe3, 0x83],
+  video: [0xe0],
+  pixelWidth: [0xb0],
+  pixelHeight: [0xba],
+  cluster: [0x1f, 0x43, 0xb6, 0x75],
+  timecode: [0xe7],
+  simpleBlock: [0xa3]
+};
+
+/** Block timecodes are signed 16-bit offsets from their cluster's, in milliseconds. */
+const maxClusterSpanMs = 30_000;
+
+const encoder = new TextEncoder();
+
+/**
+ * Writes a single-track WebM file from encoded VP8/VP9 packets. Everything is sized once the
+ * last packet is in, so the file needs no seeking; each keyframe (or every 30 s) opens a new
+ * cluster so players can seek.
+ */
+export function buildWebm(track: WebmTrack, packets: VideoPacket[]): Blob {
+  const frameMs = 1000 / track.frameRate;
+  const header = element(ids.ebml, [
+    uintElement(ids.ebmlVersion, 1),
+    uintElement(ids.ebmlReadVersion, 1),
+    uintElement(ids.ebmlMaxIdLength, 4),
+    uintElement(ids.ebmlMaxSizeLength, 8),
+    stringElement(ids.docType, "webm"),
+    uintElement(ids.docTypeVersion, 2),
+    uintElement(ids.docTypeReadVersion, 2)
+  ]);
+
+  const last = packets[packets.length - 1];
+  const durationMs = last ? last.timestamp / 1000 + frameMs : 0;
+  const info = element(ids.info, [
+    uintElement(ids.timecodeScale, 1_000_000),
+    stringElement(ids.muxingApp, "Nebula Galaxy"),
+    stringElement(ids.writingApp, "Nebula Galaxy"),
+    floatElement(ids.duration, durationMs)
+  ]);
+  const tracks = element(ids.tracks, [
+    element(ids.trackEntry, [
+      uintElement(ids.trackNumber, 1),
+      uintElement(ids.trackUid, 1),
+      uintElement(ids.trackType, 1),
+      stringElement(ids.codecId, track.codecId),
+      uintElement(ids.defaultDuration, Math.round(frameMs * 1e6)),
+      element(ids.video, [
+        uintElement(ids.pixelWidth, track.width),
+        uintElement(ids.pixelHeight, track.height)
+      ])
+    ])
+  ]);
+
+  const clusters: Uint8Array<ArrayBuffer>[] = [];
+  let blocks: Uint8Array<ArrayBuffer>[] = [];
+  let clusterStart = 0;
+  const closeCluster = () => {
+    if (blocks.length === 0) return;
+    clusters.push(element(ids.cluster, [uintElement(ids.timecode, clusterStart), ...blocks]));
+    blocks = [];
+  };
+  for (const packet of packets) {
+    const ms = Math.round(packet.timestamp / 1000);
+    if (blocks.length === 0 || packet.keyFrame || ms - clusterStart > maxClusterSpanMs) {
+      closeCluster();
+      clusterStart = ms;
+    }
+    const block = new Uint8Array(4 + packet.data.length);
+    block[0] = 0x81; // track 1 as a one-byte vint
+    new DataView(block.buffer).setInt16(1, ms - clusterStart);
+    block[3] = packet.keyFrame ? 0x80 : 0;
+    block.set(packet.data, 4);
+    blocks.push(element(ids.simpleBlock, [block]));
+  }
+  closeCluster();
+
+  // The segment's children stay separate Blob parts rather than one copied buffer
+  const body = [info, tracks, ...clusters];
+  const segment = elementHeader(ids.segment, totalLength(body));
+  return new Blob([header, segment, ...body], { type: "video/webm" });
+}
+
+function element(id: number[], children: Uint8Array[]) {
+  const size = totalLength(children);
+  const out = new Uint8Array(id.length + 8 + size);
+  out.set(elementHeader(id, size), 0);
+  let offset = id.length + 8;
+  for (const child of children) {
+    out.set(child, offset);
+    offset += child.length;
+  }
+  return out;
+}
+
+function elementHeader(id: number[], size: number) {
+  const out = new Uint8Array(id.length + 8);
+  out.set(id, 0);
+  out.set(sizeVint(size), id.length);
+  return out;
+}
+
+function totalLength(parts: Uint8Array[]) {
+  return parts.reduce((sum, part) => sum + part.length, 0);
+}
+
+/** Sizes are always written as 8-byte vints: one marker byte, then 7 bytes big-endian. */
+function sizeVint(size: number) {
+  const out = new Uint8Array(8);
+  out[0] = 0x01;
+  let rest = size;
+  for (let i = 7; i > 0; i--) {
+    out[i] = rest % 256;
+    rest = Math.floor(rest / 256);
+  }
+  return out;
+}
+
+function uintElement(id: number[], value: number) {
+  const bytes: number[] = [];
+  let rest = Math.max(0, Math.floor(value));
+  do {
+    bytes.unshift(rest % 256);
+    rest = Math.floor(rest / 256);
+  } while (rest > 0);
+  return element(id, [Uint8Array.from(bytes)]);
+}
+
+function floatElement(id: number[], value: number) {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, [bytes]);
+}
+
+function stringElement(id: number[], value: string) {
+  return element(id, [encoder.encode(value)]);
+}
@@ -0,0 +1,104 @@
+/** Entry bookkeeping for the central directory. */
+interface ZipEntry {
+  name: Uint8Array<ArrayBuffer>;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+/** Files in an archive without ZIP64, whose entry counts are 16-bit. */
+export const maxZipEntries = 0xffff;
+/** Bytes in an archive without ZIP64, whose offsets are 32-bit. */
+const maxZipBytes = 0xffffffff;
+
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Builds a ZIP archive of stored (uncompressed) files, which is all PNG frames need since they
+ * are compressed already. Each file is wrapped in a Blob as it is added, so the archive never
+ * has to exist as one contiguous buffer. No ZIP64, so the archive must stay under 4 GB and
+ * maxZipEntries files; add and finish throw rather than write a corrupt archive past either.
+ */
+export class ZipWriter {
+  private parts: BlobPart[] = [];
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private encoder = new TextEncoder();
+
+  add(fileName: string, bytes: Uint8Array<ArrayBuffer>) {
+    if (this.entries.length >= maxZipEntries) {
+      throw new Error(`Archive can't hold more than ${maxZipEntries} files`);
+    }
+    const name = this.encoder.encode(fileName);
+    const next = this.offset + 30 + name.length + bytes.length;
+    if (next > maxZipBytes) throw new Error("Archive exceeds 4 GB");
+    const crc = crc32(bytes);
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true); // version needed
+    header.setUint16(6, 0x0800, true); // UTF-8 names
+    header.setUint16(8, 0, true); // stored
+    header.setUint32(10, dosDateTime(new Date()), true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, bytes.length, true);
+    header.setUint32(22, bytes.length, true);
+    header.setUint16(26, name.length, true);
+    header.setUint16(28, 0, true);
+    this.parts.push(new Blob([header.buffer, name, bytes]));
+    this.entries.push({ name, crc, size: bytes.length, offset: this.offset });
+    this.offset = next;
+  }
+
+  finish(): Blob {
+    const directoryStart = this.offset;
+    const directorySize = this.entries.reduce((size, entry) => size + 46 + entry.name.length, 0);
+    if (directoryStart + directorySize > maxZipBytes) throw new Error("Archive exceeds 4 GB");
+    const stamp = dosDateTime(new Date());
+    for (const entry of this.entries) {
+      const record = new DataView(new ArrayBuffer(46));
+      record.setUint32(0, 0x02014b50, true);
+      record.setUint16(4, 20, true); // version made by
+      record.setUint16(6, 20, true); // version needed
+      record.setUint16(8, 0x0800, true);
+      record.setUint16(10, 0, true);
+      record.setUint32(12, stamp, true);
+      record.setUint32(16, entry.crc, true);
+      record.setUint32(20, entry.size, true);
+      record.setUint32(24, entry.size, true);
+      record.setUint16(28, entry.name.length, true);
+      record.setUint32(42, entry.offset, true);
+      this.parts.push(record.buffer, entry.name);
+    }
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, directoryStart, true);
+    this.parts.push(end.buffer);
+    return new Blob(this.parts, { type: "application/zip" });
+  }
+}
+
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const day =
+    ((Math.max(1980, date.getFullYear()) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate();
+  return ((day << 16) | time) >>> 0;
+}
@@ -0,0 +1,223 @@
+import { vec3 } from "gl-matrix";
+import { CameraState } from "@domain/camera";
+import { applyEasing } from "@domain/cameraPath";
+import { GalaxyRenderer } from "./renderer";
+
+/** What a pointer drag does: orbit the target, turn in place (fly mode) or slide the target. */
+export type DragKind = "orbit" | "look" | "pan";
+
+/** Per-second decay rate of a flick's velocity; higher stops sooner. */
+const inertiaDamping = 5;
+/** Rate at which wheel zoom catches up with the requested distance, per second. */
+const zoomResponse = 14;
+/** Rate at which fly velocity follows the held keys, per second. */
+const flyResponse = 8;
+/** A drag whose last move is older than this at release was held still: no flick. */
+const flickWindowMs = 80;
+/** Velocity samples are smoothed over roughly this long. */
+const velocitySmoothingMs = 40;
+/** Below these the motion has visibly stopped and the loop can idle. */
+const restingSpeed = { orbit: 1e-3, look: 1e-3, pan: 0.5 };
+const restingZoom = 1e-4;
+const restingFly = 1e-2;
+
+const defaultTransitionMs = 800;
+
+interface Transition {
+  from: CameraState;
+  to: CameraState;
+  start: number;
+  duration: number;
+}
+
+/**
+ * Drives the renderer's camera from user input with momentum. Drags apply at once and leave a
+ * velocity that decays after release; wheel zoom is exponential, eases in and keeps the point
+ * under the cursor fixed; fly keys accelerate smoothly; transitions ease between two views.
+ * Everything runs as an animator in the renderer's loop and is integrated over the real time
+ * between frames with exponential decay, so the feel is the same at 30 Hz and 144 Hz. The
+ * animator drops out once the camera rests, letting the loop idle.
+ */
+export class CameraController {
+  private animating = false;
+  private dragKind: DragKind = "orbit";
+  private dragging = false;
+  private lastMoveTime = 0;
+  /** Drag units per second: radians for orbit and look, CSS pixels for pan. */
+  private velocity = { x: 0, y: 0 };
+  /** Log-distance still to be applied, and the client point it zooms toward. */
+  private zoomPending = 0;
+  private zoomAnchor = { x: 0, y: 0 };
+  private flyTarget: [number, number, number] = [0, 0, 0];
+  private flyVelocity: [number, number, number] = [0, 0, 0];
+  private transition: Transition | null = null;
+
+  constructor(private renderer: GalaxyRenderer) {}
+
+  /** Grabs the camera: any flick still coasting stops, as does a transition. */
+  beginDrag(kind: DragKind) {
+    this.dragging = true;
+    this.dragKind = kind;
+    this.velocity = { x: 0, y: 0 };
+    this.lastMoveTime = performance.now();
+    this.transition = null;
+  }
+
+  /** One pointer move of the drag, in radians (orbit, look) or CSS pixels (pan). */
+  dragBy(dx: number, dy: number) {
+    if (!this.dragging) return;
+    const now = performance.now();
+    this.applyDrag(this.dragKind, dx, dy);
+    const dt = Math.max(1, now - this.lastMoveTime);
+    const weight = 1 - Math.exp(-dt / velocitySmoothingMs);
+    this.velocity.x += ((dx * 1000) / dt - this.velocity.x) * weight;
+    this.velocity.y += ((dy * 1000) / dt - this.velocity.y) * weight;
+    this.lastMoveTime = now;
+  }
+
+  /** Releases the drag; a recent fast move carries on as a decaying flick. */
+  endDrag() {
+    if (!this.dragging) return;
+    this.dragging = false;
+    if (performance.now() - this.lastMoveTime > flickWindowMs) this.velocity = { x: 0, y: 0 };
+    this.wake();
+  }
+
+  /**
+   * Zooms by a factor of e^amount (negative zooms in) toward a client-space point. Successive
+   * wheel ticks accumulate and are eased in over the next few frames.
+   */
+  zoomBy(amount: number, clientX: number, clientY: number) {
+    this.transition = null;
+    this.zoomPending += amount;
+    this.zoomAnchor = { x: clientX, y: clientY };
+    this.wake();
+  }
+
+  /** Fly velocity to approach, in world units per second along the view, across it and up. */
+  setFlyVelocity(forward: number, right: number, up: number) {
+    this.flyTarget = [forward, right, up];
+    if (forward !== 0 || right !== 0 || up !== 0) this.transition = null;
+    this.wake();
+  }
+
+  /** Eases to another view; yaw takes the short way round. */
+  transitionTo(state: CameraState, durationMs = defaultTransitionMs) {
+    const from = this.renderer.getCameraState();
+    const turns = Math.round((state.yaw - from.yaw) / (2 * Math.PI));
+    const to = { ...state, yaw: state.yaw - turns * 2 * Math.PI };
+    this.halt();
+    this.transition = { from, to, start: performance.now(), duration: durationMs };
+    this.wake();
+  }
+
+  /** Glides the orbit target to a world point, keeping the viewing angle and distance. */
+  focusOn(point: vec3) {
+    const state = this.renderer.getCameraState();
+    this.transitionTo({ ...state, target: [point[0], point[1], point[2]] });
+  }
+
+  /** Drops all momentum and any transition, e.g. before something else takes the camera. */
+  stop() {
+    this.halt();
+    this.flyTarget = [0, 0, 0];
+  }
+
+  dispose() {
+    this.stop();
+  }
+
+  private halt() {
+    this.velocity = { x: 0, y: 0 };
+    this.zoomPending = 0;
+    this.flyVelocity = [0, 0, 0];
+    this.transition = null;
+  }
+
+  private wake() {
+    if (this.animating) return;
+    this.animating = true;
+    this.renderer.animate(this.step);
+  }
+
+  private step = (dt: number, now: number) => {
+    const moving = [
+      this.stepTransition(now),
+      this.stepInertia(dt),
+      this.stepZoom(dt),
+      this.stepFly(dt)
+    ].some(Boolean);
+    this.animating = moving;
+    return moving;
+  };
+
+  private stepTransition(now: number) {
+    const transition = this.transition;
+    if (!transition) return false;
+    const u = (now - transition.start) / transition.duration;
+    this.renderer.setCameraState(
+      blendStates(transition.from, transition.to, applyEasing("easeInOut", u))
+    );
+    if (u >= 1) this.transition = null;
+    return this.transition !== null;
+  }
+
+  private stepInertia(dt: number) {
+    if (this.dragging) return false;
+    const { x, y } = this.velocity;
+    if (Math.hypot(x, y) < restingSpeed[this.dragKind]) {
+      this.velocity = { x: 0, y: 0 };
+      return false;
+    }
+    // Exact distance covered over dt by a velocity decaying as e^(-k t)
+    const decay = Math.exp(-inertiaDamping * dt);
+    const travel = (1 - decay) / inertiaDamping;
+    this.applyDrag(this.dragKind, x * travel, y * travel);
+    this.velocity = { x: x * decay, y: y * decay };
+    return true;
+  }
+
+  private stepZoom(dt: number) {
+    if (this.zoomPending === 0) return false;
+    let step = this.zoomPending * (1 - Math.exp(-zoomResponse * dt));
+    if (Math.abs(this.zoomPending - step) < restingZoom) step = this.zoomPending;
+    this.zoomPending -= step;
+    this.renderer.zoomAt(Math.exp(step), this.zoomAnchor.x, this.zoomAnchor.y);
+    return this.zoomPending !== 0;
+  }
+
+  private stepFly(dt: number) {
+    const weight = 1 - Math.exp(-flyResponse * dt);
+    const v = this.flyVelocity.map((value, i) => value + (this.flyTarget[i] - value) * weight);
+    const resting = this.flyTarget.every((value) => value === 0);
+    if (resting && Math.hypot(v[0], v[1], v[2]) < restingFly) {
+      this.flyVelocity = [0, 0, 0];
+      return false;
+    }
+    this.flyVelocity = [v[0], v[1], v[2]];
+    this.renderer.fly(v[0] * dt, v[1] * dt, v[2] * dt);
+    return true;
+  }
+
+  private applyDrag(kind: DragKind, dx: number, dy: number) {
+    if (kind === "pan") this.renderer.pan(dx, dy);
+    else if (kind === "look") this.renderer.look(dx, dy);
+    else this.renderer.orbit(dx, dy);
+  }
+}
+
+/** Eased blend of two views, with distance in log space so zooms feel even. */
+function blendStates(from: CameraState, to: CameraState, t: number): CameraState {
+  const mix = (a: number, b: number) => a + (b - a) * t;
+  return {
+    yaw: mix(from.yaw, to.yaw),
+    pitch: mix(from.pitch, to.pitch),
+    distance: Math.exp(mix(Math.log(from.distance), Math.log(to.distance))),
+    target: [
+      mix(from.target[0], to.target[0]),
+      mix(from.target[1], to.target[1]),
+      mix(from.target[2], to.target[2])
+    ],
+    fov: mix(from.fov, to.fov)
+  };
+}
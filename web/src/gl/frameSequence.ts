@@ -0,0 +1,148 @@
+import { buildWebm, VideoPacket } from "@domain/webm";
+import { maxZipEntries, ZipWriter } from "@domain/zip";
+import { GalaxyRenderer } from "./renderer";
+
+export type SequenceFormat = "png" | "webm";
+
+export const sequenceFormats: { value: SequenceFormat; label: string; extension: string }[] = [
+  { value: "png", label: "PNG frames (ZIP)", extension: "zip" },
+  { value: "webm", label: "WebM video (WebCodecs)", extension: "webm" }
+];
+
+export interface SequenceSettings {
+  format: SequenceFormat;
+  width: number;
+  height: number;
+  fps: number;
+  /** seconds */
+  duration: number;
+}
+
+/** Candidate encoders in order of preference, with their Matroska codec ids. */
+const videoCodecs = [
+  { codec: "vp09.00.10.08", codecId: "V_VP9" },
+  { codec: "vp8", codecId: "V_VP8" }
+];
+
+/** A keyframe every this many seconds keeps the video seekable. */
+const keyframeInterval = 2;
+
+/** Frames allowed to wait in the encoder before rendering pauses for it to catch up. */
+const maxEncodeQueue = 4;
+
+export function videoEncodingAvailable() {
+  return typeof VideoEncoder !== "undefined" && typeof VideoFrame !== "undefined";
+}
+
+export function frameCount(settings: SequenceSettings) {
+  return Math.max(1, Math.round(settings.duration * settings.fps));
+}
+
+/**
+ * Renders an animation offline. Time advances by exactly 1/fps per frame no matter how long a
+ * frame takes to draw: `applyFrame` poses the scene for each time, the renderer draws it
+ * offscreen at the requested size, and the frame is either PNG-encoded into a ZIP or handed to
+ * a WebCodecs VideoEncoder and muxed into WebM. Rejects with an AbortError once `signal` fires.
+ */
+export async function renderSequence(
+  renderer: GalaxyRenderer,
+  settings: SequenceSettings,
+  applyFrame: (time: number) => void,
+  onProgress: (frame: number, total: number) => void,
+  signal: AbortSignal
+): Promise<Blob> {
+  const total = frameCount(settings);
+  const canvas = document.createElement("canvas");
+  const draw = (index: number) => {
+    if (signal.aborted) throw new DOMException("Aborted", "AbortError");
+    applyFrame(index / settings.fps);
+    renderer.renderToCanvas(settings.width, settings.height, canvas);
+  };
+
+  if (settings.format === "png") {
+    if (total > maxZipEntries) {
+      throw new Error(
+        `A PNG sequence holds at most ${maxZipEntries} frames; shorten it or lower the frame rate`
+      );
+    }
+    const zip = new ZipWriter();
+    const digits = String(total - 1).length;
+    for (let i = 0; i < total; i++) {
+      draw(i);
+      const png = await canvasToPng(canvas);
+      zip.add(`frame_${String(i).padStart(Math.max(5, digits), "0")}.png`, png);
+      onProgress(i + 1, total);
+    }
+    return zip.finish();
+  }
+
+  const { width, height, fps } = settings;
+  const config = await pickVideoConfig(width, height, fps);
+  if (!config) throw new Error("This browser can't encode WebM video at this size");
+  const packets: VideoPacket[] = [];
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, timestamp: chunk.timestamp, keyFrame: chunk.type === "key" });
+    },
+    error: (error) => {
+      failure = error;
+    }
+  });
+  try {
+    encoder.configure(config.config);
+    const frameMicros = 1e6 / fps;
+    const keyEvery = Math.max(1, Math.round(fps * keyframeInterval));
+    for (let i = 0; i < total; i++) {
+      draw(i);
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(i * frameMicros),
+        duration: Math.round(frameMicros)
+      });
+      encoder.encode(frame, { keyFrame: i % keyEvery === 0 });
+      frame.close();
+      // Yield so progress paints and cancel clicks land; wait out a backed-up encoder
+      do {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        if (failure) throw failure;
+      } while (encoder.encodeQueueSize > maxEncodeQueue);
+      onProgress(i + 1, total);
+    }
+    await encoder.flush();
+    if (failure) throw failure;
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+  return buildWebm({ codecId: config.codecId, width, height, frameRate: fps }, packets);
+}
+
+async function pickVideoConfig(width: number, height: number, fps: number) {
+  if (!videoEncodingAvailable()) return null;
+  for (const { codec, codecId } of videoCodecs) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width,
+      height,
+      framerate: fps,
+      // About 0.1 bit per pixel per frame: ~6 Mbit/s for 1080p30
+      bitrate: Math.round(width * height * fps * 0.1)
+    };
+    const support = await VideoEncoder.isConfigSupported(config);
+    if (support.supported) return { config, codecId };
+  }
+  return null;
+}
+
+function canvasToPng(canvas: HTMLCanvasElement) {
+  return new Promise<Uint8Array<ArrayBuffer>>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error("PNG encoding failed"));
+        return;
+      }
+      blob.arrayBuffer().then((bytes) => resolve(new Uint8Array(bytes)), reject);
+    }, "image/png");
+  });
+}
@@ -0,0 +1,76 @@
+/** EXT_disjoint_timer_query_webgl2; lib.dom doesn't declare it. */
+interface TimerQueryExtension {
+  readonly TIME_ELAPSED_EXT: number;
+  readonly GPU_DISJOINT_EXT: number;
+}
+
+/** Queries still waiting on the GPU; older ones are dropped rather than piling up. */
+const maxPendingQueries = 4;
+
+/**
+ * Measures how long the GPU spends on a stretch of commands with EXT_disjoint_timer_query_webgl2.
+ * Results arrive a few frames late, so each frame wraps its draw in begin/end and poll picks up
+ * whatever has finished. `available` is false where the extension is missing (most mobile
+ * browsers, or when the browser withholds it to blunt timing attacks); callers fall back to CPU
+ * timing then.
+ */
+export class GpuTimer {
+  readonly available: boolean;
+  private ext: TimerQueryExtension | null;
+  private pending: WebGLQuery[] = [];
+  private active: WebGLQuery | null = null;
+
+  constructor(private gl: WebGL2RenderingContext) {
+    this.ext = gl.getExtension("EXT_disjoint_timer_query_webgl2") as TimerQueryExtension | null;
+    this.available = this.ext !== null;
+  }
+
+  begin() {
+    const { gl, ext } = this;
+    if (!ext || this.active || this.pending.length >= maxPendingQueries) return;
+    const query = gl.createQuery();
+    if (!query) return;
+    gl.beginQuery(ext.TIME_ELAPSED_EXT, query);
+    this.active = query;
+  }
+
+  end() {
+    const { gl, ext } = this;
+    if (!ext || !this.active) return;
+    gl.endQuery(ext.TIME_ELAPSED_EXT);
+    this.pending.push(this.active);
+    this.active = null;
+  }
+
+  /** Milliseconds of the latest query to finish, or null when none has finished since. */
+  poll(): number | null {
+    const { gl, ext } = this;
+    if (!ext) return null;
+    // A disjoint event (clock change, context loss) spoils every query in flight
+    if (gl.getParameter(ext.GPU_DISJOINT_EXT)) {
+      this.discard();
+      return null;
+    }
+    let result: number | null = null;
+    while (this.pending.length > 0) {
+      const query = this.pending[0];
+      if (!gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE)) break;
+      result = (gl.getQueryParameter(query, gl.QUERY_RESULT) as number) / 1e6;
+      gl.deleteQuery(query);
+      this.pending.shift();
+    }
+    return result;
+  }
+
+  dispose() {
+    if (this.active && this.ext) this.gl.endQuery(this.ext.TIME_ELAPSED_EXT);
+    if (this.active) this.gl.deleteQuery(this.active);
+    this.active = null;
+    this.discard();
+  }
+
+  private discard() {
+    for (const query of this.pending) this.gl.deleteQuery(query);
+    this.pending = [];
+  }
+}
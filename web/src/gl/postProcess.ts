@@ -0,0 +1,244 @@
+import { createProgram } from "./program";
+import { bloomDownSource, bloomUpSource, compositeSource, postVertexSource } from "./shaders";
+
+export type ToneMapping = "none" | "reinhard" | "aces" | "filmic";
+
+export const toneMappings: { value: ToneMapping; label: string }[] = [
+  { value: "none", label: "None (clip)" },
+  { value: "reinhard", label: "Reinhard" },
+  { value: "aces", label: "ACES" },
+  { value: "filmic", label: "Filmic (Hable)" }
+];
+
+export interface PostSettings {
+  /** In stops: the scene is scaled by 2^exposure before tone mapping. */
+  exposure: number;
+  toneMapping: ToneMapping;
+  /** Brightness above which light blooms, in scene units (1 is display white). */
+  bloomThreshold: number;
+  /** 0 keeps the bloom tight around the source, 1 spreads it over the widest level. */
+  bloomRadius: number;
+  /** Bloom added to the scene; 0 turns the bloom passes off. */
+  bloomIntensity: number;
+}
+
+export const defaultPostSettings: PostSettings = {
+  exposure: 0,
+  toneMapping: "aces",
+  bloomThreshold: 1,
+  bloomRadius: 0.6,
+  bloomIntensity: 0.4
+};
+
+const toneMappingIndex: Record<ToneMapping, number> = { none: 0, reinhard: 1, aces: 2, filmic: 3 };
+
+/** Width of the soft knee below the bloom threshold, as a fraction of it. */
+const bloomKnee = 0.5;
+
+interface RenderTarget {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+  width: number;
+  height: number;
+}
+
+/** The HDR scene buffer a frame is drawn into, and the bloom pyramid below it. */
+export interface PostTargets {
+  width: number;
+  height: number;
+  scene: RenderTarget;
+  /** Half resolution and down; empty when the image is too small for any level. */
+  bloom: RenderTarget[];
+}
+
+/**
+ * Bloom pyramid depth for an image `height` pixels tall. Each level halves the resolution and
+ * doubles the reach, so taller images get more levels and the glow covers the same share of
+ * the frame on screen and in a high-resolution render.
+ */
+export function bloomLevels(height: number) {
+  return Math.min(10, Math.max(1, Math.floor(Math.log2(Math.max(1, height))) - 4));
+}
+
+/** Pixels of bloom spill around a light at the given pyramid depth. */
+export function bloomReach(levels: number) {
+  return 3 * 2 ** levels;
+}
+
+/**
+ * HDR post-processing: the scene is drawn into a half-float target so bright cores keep their
+ * range, then a dual-filter bloom and a tone mapping pass bring it to the display. Bloom
+ * downsamples the thresholded scene level by level and upsamples back, mixing each level into
+ * the finer one by the bloom radius. Where float render targets are missing the same passes
+ * run on 8-bit targets, which still bloom but clip at white.
+ */
+export class PostProcessor {
+  readonly hdr: boolean;
+  private downProgram: WebGLProgram;
+  private upProgram: WebGLProgram;
+  private compositeProgram: WebGLProgram;
+  private down: Record<
+    "source" | "texel" | "prefilter" | "threshold" | "knee",
+    WebGLUniformLocation
+  >;
+  private up: Record<"source" | "texel", WebGLUniformLocation>;
+  private composite: Record<
+    "scene" | "bloom" | "bloomIntensity" | "exposure" | "toneMapping",
+    WebGLUniformLocation
+  >;
+
+  constructor(private gl: WebGL2RenderingContext) {
+    this.hdr = gl.getExtension("EXT_color_buffer_float") !== null;
+    this.downProgram = createProgram(gl, postVertexSource, bloomDownSource);
+    this.upProgram = createProgram(gl, postVertexSource, bloomUpSource);
+    this.compositeProgram = createProgram(gl, postVertexSource, compositeSource);
+    const uniform = (program: WebGLProgram, name: string) =>
+      gl.getUniformLocation(program, name)!;
+    this.down = {
+      source: uniform(this.downProgram, "uSource"),
+      texel: uniform(this.downProgram, "uTexel"),
+      prefilter: uniform(this.downProgram, "uPrefilter"),
+      threshold: uniform(this.downProgram, "uThreshold"),
+      knee: uniform(this.downProgram, "uKnee")
+    };
+    this.up = {
+      source: uniform(this.upProgram, "uSource"),
+      texel: uniform(this.upProgram, "uTexel")
+    };
+    this.composite = {
+      scene: uniform(this.compositeProgram, "uScene"),
+      bloom: uniform(this.compositeProgram, "uBloom"),
+      bloomIntensity: uniform(this.compositeProgram, "uBloomIntensity"),
+      exposure: uniform(this.compositeProgram, "uExposure"),
+      toneMapping: uniform(this.compositeProgram, "uToneMapping")
+    };
+  }
+
+  /** Allocates a scene target of width x height and up to `levels` bloom levels under it. */
+  createTargets(width: number, height: number, levels: number): PostTargets {
+    const scene = this.createTarget(width, height);
+    const bloom: RenderTarget[] = [];
+    let w = width;
+    let h = height;
+    for (let i = 0; i < levels && w > 1 && h > 1; i++) {
+      w = Math.max(1, w >> 1);
+      h = Math.max(1, h >> 1);
+      bloom.push(this.createTarget(w, h));
+    }
+    return { width, height, scene, bloom };
+  }
+
+  deleteTargets(targets: PostTargets) {
+    for (const target of [targets.scene, ...targets.bloom]) {
+      this.gl.deleteFramebuffer(target.framebuffer);
+      this.gl.deleteTexture(target.texture);
+    }
+  }
+
+  /** Binds the scene target for drawing, with a matching viewport. */
+  bindScene(targets: PostTargets) {
+    const gl = this.gl;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, targets.scene.framebuffer);
+    gl.viewport(0, 0, targets.width, targets.height);
+  }
+
+  /**
+   * Blooms and tone maps the scene target into `output` (null for the canvas), which must be
+   * the same size. Leaves blending disabled and the output bound.
+   */
+  apply(targets: PostTargets, settings: PostSettings, output: WebGLFramebuffer | null) {
+    const gl = this.gl;
+    const bloom = settings.bloomIntensity > 0 && targets.bloom.length > 0;
+    gl.activeTexture(gl.TEXTURE0);
+
+    if (bloom) {
+      gl.disable(gl.BLEND);
+      gl.useProgram(this.downProgram);
+      gl.uniform1i(this.down.source, 0);
+      gl.uniform1f(this.down.threshold, settings.bloomThreshold);
+      gl.uniform1f(this.down.knee, Math.max(1e-3, settings.bloomThreshold * bloomKnee));
+      let source = targets.scene;
+      targets.bloom.forEach((target, level) => {
+        this.bindTarget(target);
+        gl.bindTexture(gl.TEXTURE_2D, source.texture);
+        gl.uniform2f(this.down.texel, 1 / source.width, 1 / source.height);
+        gl.uniform1i(this.down.prefilter, level === 0 ? 1 : 0);
+        gl.drawArrays(gl.TRIANGLES, 0, 3);
+        source = target;
+      });
+
+      // Each finer level becomes mix(itself, upsampled coarser level, radius)
+      gl.useProgram(this.upProgram);
+      gl.uniform1i(this.up.source, 0);
+      gl.enable(gl.BLEND);
+      gl.blendColor(0, 0, 0, Math.min(Math.max(settings.bloomRadius, 0), 1));
+      gl.blendFunc(gl.CONSTANT_ALPHA, gl.ONE_MINUS_CONSTANT_ALPHA);
+      for (let level = targets.bloom.length - 2; level >= 0; level--) {
+        const coarse = targets.bloom[level + 1];
+        this.bindTarget(targets.bloom[level]);
+        gl.bindTexture(gl.TEXTURE_2D, coarse.texture);
+        gl.uniform2f(this.up.texel, 1 / coarse.width, 1 / coarse.height);
+        gl.drawArrays(gl.TRIANGLES, 0, 3);
+      }
+    }
+
+    gl.disable(gl.BLEND);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, output);
+    gl.viewport(0, 0, targets.width, targets.height);
+    gl.useProgram(this.compositeProgram);
+    gl.uniform1i(this.composite.scene, 0);
+    gl.uniform1i(this.composite.bloom, 1);
+    gl.uniform1f(this.composite.bloomIntensity, bloom ? settings.bloomIntensity : 0);
+    gl.uniform1f(this.composite.exposure, 2 ** settings.exposure);
+    gl.uniform1i(this.composite.toneMapping, toneMappingIndex[settings.toneMapping]);
+    gl.bindTexture(gl.TEXTURE_2D, targets.scene.texture);
+    gl.activeTexture(gl.TEXTURE1);
+    // Something must be bound to the bloom unit even when the shader skips it
+    gl.bindTexture(gl.TEXTURE_2D, bloom ? targets.bloom[0].texture : targets.scene.texture);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.activeTexture(gl.TEXTURE0);
+  }
+
+  dispose() {
+    this.gl.deleteProgram(this.downProgram);
+    this.gl.deleteProgram(this.upProgram);
+    this.gl.deleteProgram(this.compositeProgram);
+  }
+
+  private bindTarget(target: RenderTarget) {
+    const gl = this.gl;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+    gl.viewport(0, 0, target.width, target.height);
+  }
+
+  private createTarget(width: number, height: number): RenderTarget {
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    const framebuffer = gl.createFramebuffer();
+    if (!texture || !framebuffer) throw new Error("Failed to create render target");
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    if (this.hdr) {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA16F, width, height, 0, gl.RGBA, gl.HALF_FLOAT, null);
+    } else {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+    }
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    if (status !== gl.FRAMEBUFFER_COMPLETE) {
+      gl.deleteFramebuffer(framebuffer);
+      gl.deleteTexture(texture);
+      throw new Error(
+        `Render target ${width} x ${height} is incomplete (0x${status.toString(16)})`
+      );
+    }
+    return { texture, framebuffer, width, height };
+  }
+}
@@ -1,50 +1,136 @@
-import { mat4 } from "gl-matrix";
-import { Camera } from "@domain/camera";
+import { mat4, vec3 } from "gl-matrix";
+import { Camera, CameraState } from "@domain/camera";
+import { GpuTimer } from "./gpuTimer";
+import {
+  bloomLevels,
+  bloomReach,
+  defaultPostSettings,
+  PostProcessor,
+  PostSettings,
+  PostTargets
+} from "./postProcess";
+import { createProgram } from "./program";
 import { fragmentSource, vertexSource } from "./shaders";
-import { StarBuffer } from "@domain/parameters";
+import { RigidRange, StarRange } from "@domain/generator";
+import { buildBlackbodyPalette, buildPalette, Palette } from "@domain/palette";
+import { ColorMode, floatsPerStar, StarBuffer, StarChunk, VertexLayout } from "@domain/parameters";
+import { pickStar } from "@domain/picking";
+import { defaultRotation, RotationCurve, RotationSettings } from "@domain/rotation";
+import { GalaxyTransform, galaxyModelMatrix } from "@domain/scene";
+import {
+  bytesPerStar,
+  configureVertexAttributes,
+  maxPackedIntensity,
+  packStars,
+  uploadChunkStars
+} from "./vertexFormat";
+
+/** GPU state for one galaxy in the scene. */
+interface GalaxyMesh {
+  vao: WebGLVertexArrayObject;
+  vbo: WebGLBuffer;
+  starCount: number;
+  /** bytes allocated for the vertex buffer */
+  bufferBytes: number;
+  absorbing: StarRange;
+  /** Stars the animated rotation turns as a solid body or leaves in place (see rigidRanges) */
+  rigid: RigidRange[];
+  colorMode: ColorMode;
+  /** Own "palette" mode strip; null draws with the shared default palette. */
+  paletteTex: WebGLTexture | null;
+  model: mat4;
+  visible: boolean;
+  /** false for meshes whose stars already move on their own (simulated frames) */
+  rotates: boolean;
+}
+
+/** What the stats overlay shows about the on-screen render loop. */
+export interface RenderStats {
+  /** Frames drawn over the last second; drops to 0 while the loop idles. */
+  fps: number;
+  /** Recent average time to draw one frame, in milliseconds. */
+  frameMs: number;
+  /** true when frameMs comes from GPU timer queries, false for CPU submit time. */
+  gpuTimed: boolean;
+  /** Particles in the visible meshes. */
+  stars: number;
+  /** Vertex buffer memory across all meshes. */
+  gpuBytes: number;
+}
+
+/**
+ * Runs before each drawn frame with the seconds since the previous one; returning true keeps
+ * the loop going for another frame.
+ */
+export type Animator = (dt: number, now: number) => boolean;
+
+const curveIndex: Record<RotationCurve, number> = { solid: 0, flat: 1, keplerian: 2 };
+
+/** Largest gl_PointSize at a pixel scale of 1: a dust point, 12 px times its 2.5x pass scale. */
+const maxPointSize = 30;
+
+/** How far from the cursor a star can be and still be picked, in CSS pixels. */
+const pickRadius = 8;
+
+/** Offscreen tiles are also capped here so a single readback stays a manageable size. */
+const maxTileSize = 4096;
 
 export class GalaxyRenderer {
   private gl: WebGL2RenderingContext;
   private program!: WebGLProgram;
-  private vao!: WebGLVertexArrayObject;
-  private vbo!: WebGLBuffer;
+  private post!: PostProcessor;
+  private postSettings: PostSettings = defaultPostSettings;
+  private screenTargets: PostTargets | null = null;
   private paletteTex!: WebGLTexture;
+  private blackbodyTex!: WebGLTexture;
   private uModel!: WebGLUniformLocation;
   private uView!: WebGLUniformLocation;
   private uProjection!: WebGLUniformLocation;
   private uPalette!: WebGLUniformLocation;
-  private starCount = 0;
+  private uPackedIntensity!: WebGLUniformLocation;
+  private uAbsorb!: WebGLUniformLocation;
+  private uPointScale!: WebGLUniformLocation;
+  private uPixelScale!: WebGLUniformLocation;
+  private uTime!: WebGLUniformLocation;
+  private uCurve!: WebGLUniformLocation;
+  private uCoreRadius!: WebGLUniformLocation;
+  private uVelocity!: WebGLUniformLocation;
+  private rotation: RotationSettings = defaultRotation;
+  private rotationTime = 0;
+  private rotationPlaying = false;
+  private frameRequest: number | null = null;
+  private lastFrameTime = 0;
+  private animators = new Set<Animator>();
+  private timer: GpuTimer;
+  private frameTimes: number[] = [];
+  private frameMs = 0;
+  private galaxies = new Map<string, GalaxyMesh>();
+  private layout: VertexLayout = "float32";
   private camera = new Camera();
-  private model = mat4.create();
 
   constructor(private canvas: HTMLCanvasElement) {
     const gl = canvas.getContext("webgl2");
     if (!gl) throw new Error("WebGL2 not supported");
     this.gl = gl;
+    this.timer = new GpuTimer(gl);
   }
 
   init() {
     const gl = this.gl;
-    this.program = this.createProgram(vertexSource, fragmentSource);
+    this.program = createProgram(gl, vertexSource, fragmentSource);
+    this.post = new PostProcessor(gl);
     this.uModel = gl.getUniformLocation(this.program, "uModel")!;
     this.uView = gl.getUniformLocation(this.program, "uView")!;
     this.uProjection = gl.getUniformLocation(this.program, "uProjection")!;
     this.uPalette = gl.getUniformLocation(this.program, "uPalette")!;
-
-    this.vao = gl.createVertexArray()!;
-    this.vbo = gl.createBuffer()!;
-    gl.bindVertexArray(this.vao);
-    gl.bindBuffer(gl.ARRAY_BUFFER, this.vbo);
-
-    const stride = 5 * 4;
-    gl.enableVertexAttribArray(0);
-    gl.vertexAttribPointer(0, 3, gl.FLOAT, false, stride, 0);
-    gl.enableVertexAttribArray(1);
-    gl.vertexAttribPointer(1, 1, gl.FLOAT, false, stride, 3 * 4);
-    gl.enableVertexAttribArray(2);
-    gl.vertexAttribPointer(2, 1, gl.FLOAT, false, stride, 4 * 4);
-
-    gl.bindVertexArray(null);
+    this.uPackedIntensity = gl.getUniformLocation(this.program, "uPackedIntensity")!;
+    this.uAbsorb = gl.getUniformLocation(this.program, "uAbsorb")!;
+    this.uPointScale = gl.getUniformLocation(this.program, "uPointScale")!;
+    this.uPixelScale = gl.getUniformLocation(this.program, "uPixelScale")!;
+    this.uTime = gl.getUniformLocation(this.program, "uTime")!;
+    this.uCurve = gl.getUniformLocation(this.program, "uCurve")!;
+    this.uCoreRadius = gl.getUniformLocation(this.program, "uCoreRadius")!;
+    this.uVelocity = gl.getUniformLocation(this.program, "uVelocity")!;
 
     gl.enable(gl.BLEND);
     gl.blendFunc(gl.SRC_ALPHA, gl.ONE);
@@ -53,14 +139,149 @@ export class GalaxyRenderer {
     gl.enable(gl.PROGRAM_POINT_SIZE);
 
     this.paletteTex = this.createPaletteTexture(buildPalette());
+    this.blackbodyTex = this.createPaletteTexture(buildBlackbodyPalette());
     this.resize();
   }
 
-  setStars(buffer: StarBuffer) {
-    this.starCount = buffer.count;
+  /**
+   * Uploads a whole galaxy, creating it on first use. `absorbing` marks the trailing range
+   * (dust) drawn as an absorbing pass after the stars; `rigid` ranges don't orbit star by star.
+   */
+  setStars(id: string, buffer: StarBuffer, absorbing?: StarRange, rigid: RigidRange[] = []) {
+    const mesh = this.ensureGalaxy(id);
+    mesh.starCount = buffer.count;
+    mesh.absorbing = absorbing ?? { offset: buffer.count, count: 0 };
+    mesh.rigid = rigid;
+    const gl = this.gl;
+    mesh.bufferBytes = buffer.count * bytesPerStar(this.layout);
+    gl.bindBuffer(gl.ARRAY_BUFFER, mesh.vbo);
+    gl.bufferData(gl.ARRAY_BUFFER, mesh.bufferBytes, gl.DYNAMIC_DRAW);
+    this.uploadStars(mesh, buffer.data.subarray(0, buffer.count * floatsPerStar), 0);
+    this.render();
+  }
+
+  /**
+   * Switches the GPU vertex layout. The existing GPU data is in the old layout, so the caller
+   * must upload every galaxy again (setStars or beginStars/appendStars).
+   */
+  setVertexLayout(layout: VertexLayout) {
+    if (layout === this.layout) return;
+    this.layout = layout;
+    const gl = this.gl;
+    for (const mesh of this.galaxies.values()) {
+      gl.bindVertexArray(mesh.vao);
+      gl.bindBuffer(gl.ARRAY_BUFFER, mesh.vbo);
+      configureVertexAttributes(gl, layout);
+      mesh.starCount = 0;
+    }
+    gl.bindVertexArray(null);
+  }
+
+  getVertexLayout() {
+    return this.layout;
+  }
+
+  setPostSettings(settings: PostSettings) {
+    this.postSettings = settings;
+    this.render();
+  }
+
+  /** false where half-float render targets are missing and the scene is drawn in 8 bits. */
+  isHdr() {
+    return this.post.hdr;
+  }
+
+  /** Selects how colorIndex01 is looked up; must match the ColorMode the stars were made with. */
+  setColorMode(id: string, mode: ColorMode) {
+    const mesh = this.ensureGalaxy(id);
+    if (mode === mesh.colorMode) return;
+    mesh.colorMode = mode;
+    this.render();
+  }
+
+  /** Gives a galaxy its own palette strip, re-uploaded in place on later calls. */
+  setPalette(id: string, palette: Palette) {
+    const mesh = this.ensureGalaxy(id);
+    if (mesh.paletteTex) this.uploadPalette(mesh.paletteTex, palette);
+    else mesh.paletteTex = this.createPaletteTexture(palette);
+    this.render();
+  }
+
+  setGalaxyTransform(id: string, transform: GalaxyTransform) {
+    galaxyModelMatrix(transform, this.ensureGalaxy(id).model);
+    this.render();
+  }
+
+  /** Hidden galaxies keep their GPU data but are skipped when drawing. */
+  setGalaxyVisible(id: string, visible: boolean) {
+    const mesh = this.ensureGalaxy(id);
+    if (mesh.visible === visible) return;
+    mesh.visible = visible;
+    this.render();
+  }
+
+  setGalaxyRotates(id: string, rotates: boolean) {
+    const mesh = this.ensureGalaxy(id);
+    if (mesh.rotates === rotates) return;
+    mesh.rotates = rotates;
+    this.render();
+  }
+
+  setRotation(settings: RotationSettings) {
+    this.rotation = settings;
+    this.render();
+  }
+
+  /** Advances the rotation every frame while playing, which keeps the render loop awake. */
+  setRotationPlaying(playing: boolean) {
+    if (playing === this.rotationPlaying) return;
+    this.rotationPlaying = playing;
+    if (playing) this.requestFrame();
+  }
+
+  /** Seconds of rotation applied so far; offline renders set it per frame. */
+  getRotationTime() {
+    return this.rotationTime;
+  }
+
+  setRotationTime(seconds: number) {
+    this.rotationTime = seconds;
+    this.render();
+  }
+
+  /** Returns every star to its generated position. */
+  resetRotation() {
+    this.rotationTime = 0;
+    this.render();
+  }
+
+  removeGalaxy(id: string) {
+    const mesh = this.galaxies.get(id);
+    if (!mesh) return;
+    this.galaxies.delete(id);
+    this.deleteMesh(mesh);
+    this.render();
+  }
+
+  /** Allocates GPU storage for a streamed galaxy; chunks are then appended as they arrive. */
+  beginStars(id: string, total: number, absorbing?: StarRange, rigid: RigidRange[] = []) {
+    const mesh = this.ensureGalaxy(id);
+    mesh.starCount = 0;
+    mesh.absorbing = absorbing ?? { offset: total, count: 0 };
+    mesh.rigid = rigid;
     const gl = this.gl;
-    gl.bindBuffer(gl.ARRAY_BUFFER, this.vbo);
-    gl.bufferData(gl.ARRAY_BUFFER, buffer.data, gl.DYNAMIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, mesh.vbo);
+    mesh.bufferBytes = total * bytesPerStar(this.layout);
+    gl.bufferData(gl.ARRAY_BUFFER, mesh.bufferBytes, gl.DYNAMIC_DRAW);
+    this.render();
+  }
+
+  appendStars(id: string, chunk: StarChunk) {
+    const mesh = this.galaxies.get(id);
+    if (!mesh) return;
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, mesh.vbo);
+    this.uploadStars(mesh, chunk.data, chunk.offset);
+    mesh.starCount = Math.max(mesh.starCount, chunk.offset + chunk.count);
     this.render();
   }
 
@@ -76,25 +297,212 @@ export class GalaxyRenderer {
     }
   }
 
+  /**
+   * Schedules a redraw on the next animation frame. Calls within one frame share a single
+   * draw, and nothing is drawn while nothing asks for it, so an idle scene costs no GPU time.
+   */
   render() {
+    this.requestFrame();
+  }
+
+  /**
+   * Adds a per-frame callback to the render loop, run before the draw until it returns false.
+   * Returns a function that removes it early.
+   */
+  animate(animator: Animator) {
+    this.animators.add(animator);
+    this.requestFrame();
+    return () => {
+      this.animators.delete(animator);
+    };
+  }
+
+  getStats(): RenderStats {
+    const since = performance.now() - 1000;
+    let stars = 0;
+    let gpuBytes = 0;
+    for (const mesh of this.galaxies.values()) {
+      if (mesh.visible) stars += mesh.starCount;
+      gpuBytes += mesh.bufferBytes;
+    }
+    return {
+      fps: this.frameTimes.filter((time) => time > since).length,
+      frameMs: this.frameMs,
+      gpuTimed: this.timer.available,
+      stars,
+      gpuBytes
+    };
+  }
+
+  /**
+   * Renders the current view at width x height offscreen and returns it as a PNG. Sizes past
+   * MAX_RENDERBUFFER_SIZE are drawn in tiles, each through its slice of the projection
+   * frustum, and stitched on a 2D canvas. Point sizes scale with the output height over the
+   * canvas height so stars cover the same share of the frame as on screen. Points are clipped
+   * by their centers, so every tile is drawn with a guard band of half the largest point and
+   * only its interior is kept; otherwise points straddling a seam would lose their other half.
+   * With bloom on, the band also covers the bloom's reach and tiles align to the coarsest
+   * bloom level, so glows carry across seams and every tile downsamples on the same grid.
+   */
+  async renderImage(width: number, height: number): Promise<Blob> {
+    const output = this.renderToCanvas(width, height);
+    return new Promise<Blob>((resolve, reject) => {
+      output.toBlob((blob) => {
+        if (blob) resolve(blob);
+        else reject(new Error("PNG encoding failed"));
+      }, "image/png");
+    });
+  }
+
+  /**
+   * The tiled offscreen render behind renderImage, stitched into a 2D canvas. Pass the canvas
+   * from the previous call as `output` to reuse it across the frames of a sequence.
+   */
+  renderToCanvas(width: number, height: number, output = document.createElement("canvas")) {
+    const gl = this.gl;
+    const viewportDims = gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array;
+    const limit = Math.min(
+      gl.getParameter(gl.MAX_RENDERBUFFER_SIZE) as number,
+      viewportDims[0],
+      viewportDims[1],
+      gl.getParameter(gl.MAX_TEXTURE_SIZE) as number,
+      maxTileSize
+    );
+    const pixelScale = height / Math.max(1, this.canvas.height);
+    // Bloom levels follow the whole image's height so the glow matches the on-screen look
+    const levels = bloomLevels(height);
+    const bloom = this.postSettings.bloomIntensity > 0;
+    const align = bloom ? 2 ** levels : 1;
+    const spill = Math.max((maxPointSize * pixelScale) / 2, bloom ? bloomReach(levels) : 0);
+    const margin = Math.ceil(spill / align) * align;
+    const tileSize = Math.floor((limit - 2 * margin) / align) * align;
+    if (tileSize < 64) throw new Error("Image is too large for this GPU");
+
+    if (output.width !== width) output.width = width;
+    if (output.height !== height) output.height = height;
+    const context = output.getContext("2d");
+    if (!context) throw new Error("Could not allocate the output image");
+
+    const view = this.camera.getViewMatrix();
+    const projection = this.camera.getProjectionMatrix(width / height);
+    const tileProjection = mat4.create();
+    const crop = mat4.create();
+    const framebuffer = gl.createFramebuffer();
+    const renderbuffer = gl.createRenderbuffer();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.bindRenderbuffer(gl.RENDERBUFFER, renderbuffer);
+    gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.RENDERBUFFER, renderbuffer);
+
+    let targets: PostTargets | null = null;
+    try {
+      let allocated = "";
+      for (let y0 = 0; y0 < height; y0 += tileSize) {
+        for (let x0 = 0; x0 < width; x0 += tileSize) {
+          const tileWidth = Math.min(tileSize, width - x0);
+          const tileHeight = Math.min(tileSize, height - y0);
+          const bufferWidth = tileWidth + 2 * margin;
+          const bufferHeight = tileHeight + 2 * margin;
+          if (allocated !== `${bufferWidth}x${bufferHeight}`) {
+            gl.renderbufferStorage(gl.RENDERBUFFER, gl.RGBA8, bufferWidth, bufferHeight);
+            if (targets) this.post.deleteTargets(targets);
+            targets = this.post.createTargets(bufferWidth, bufferHeight, levels);
+            allocated = `${bufferWidth}x${bufferHeight}`;
+          }
+
+          // NDC extent of the tile plus its guard band; image rows run top-down, NDC y bottom-up
+          const left = ((x0 - margin) / width) * 2 - 1;
+          const right = ((x0 + tileWidth + margin) / width) * 2 - 1;
+          const top = 1 - ((y0 - margin) / height) * 2;
+          const bottom = 1 - ((y0 + tileHeight + margin) / height) * 2;
+          mat4.identity(crop);
+          crop[0] = 2 / (right - left);
+          crop[5] = 2 / (top - bottom);
+          crop[12] = -(right + left) / (right - left);
+          crop[13] = -(top + bottom) / (top - bottom);
+          mat4.multiply(tileProjection, crop, projection);
+
+          this.post.bindScene(targets!);
+          this.draw(view, tileProjection, pixelScale);
+          this.post.apply(targets!, this.postSettings, framebuffer);
+
+          const pixels = new Uint8Array(tileWidth * tileHeight * 4);
+          gl.readPixels(margin, margin, tileWidth, tileHeight, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+          const image = context.createImageData(tileWidth, tileHeight);
+          const rowBytes = tileWidth * 4;
+          for (let row = 0; row < tileHeight; row++) {
+            const source = pixels.subarray(row * rowBytes, (row + 1) * rowBytes);
+            image.data.set(source, (tileHeight - 1 - row) * rowBytes);
+          }
+          context.putImageData(image, x0, y0);
+        }
+      }
+    } finally {
+      if (targets) this.post.deleteTargets(targets);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+      gl.bindRenderbuffer(gl.RENDERBUFFER, null);
+      gl.deleteRenderbuffer(renderbuffer);
+      gl.deleteFramebuffer(framebuffer);
+      gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+    }
+    this.render();
+    return output;
+  }
+
+  /** Draws every visible galaxy into the bound framebuffer and viewport. */
+  private draw(view: mat4, projection: mat4, pixelScale: number) {
     const { gl } = this;
     gl.clear(gl.COLOR_BUFFER_BIT);
+    // Post-processing leaves its own blend state behind
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE);
     gl.useProgram(this.program);
 
-    const aspect = this.canvas.width / Math.max(1, this.canvas.height);
-    const view = this.camera.getViewMatrix();
-    const projection = this.camera.getProjectionMatrix(aspect);
-
-    gl.uniformMatrix4fv(this.uModel, false, this.model);
     gl.uniformMatrix4fv(this.uView, false, view);
     gl.uniformMatrix4fv(this.uProjection, false, projection);
-
+    gl.uniform1f(this.uPackedIntensity, this.layout === "compact" ? maxPackedIntensity : 0);
+    gl.uniform1f(this.uPixelScale, pixelScale);
     gl.activeTexture(gl.TEXTURE0);
-    gl.bindTexture(gl.TEXTURE_2D, this.paletteTex);
     gl.uniform1i(this.uPalette, 0);
+    gl.uniform1i(this.uCurve, curveIndex[this.rotation.curve]);
+    gl.uniform1f(this.uCoreRadius, this.rotation.coreRadius);
+    gl.uniform1f(this.uVelocity, this.rotation.velocity);
+
+    // Far to near, so a foreground galaxy's dust dims the light behind it but not in front.
+    const origin = vec3.create();
+    const depth = (mesh: GalaxyMesh) => {
+      mat4.getTranslation(origin, mesh.model);
+      return vec3.transformMat4(origin, origin, view)[2];
+    };
+    const meshes = Array.from(this.galaxies.values())
+      .filter((mesh) => mesh.visible)
+      .sort((a, b) => depth(a) - depth(b));
+
+    for (const mesh of meshes) {
+      gl.uniformMatrix4fv(this.uModel, false, mesh.model);
+      gl.uniform1f(this.uTime, mesh.rotates ? this.rotationTime : 0);
+      gl.bindTexture(
+        gl.TEXTURE_2D,
+        mesh.colorMode === "population" ? this.blackbodyTex : mesh.paletteTex ?? this.paletteTex
+      );
+      gl.bindVertexArray(mesh.vao);
+
+      // Emissive stars add light
+      const emissive = Math.min(mesh.starCount, mesh.absorbing.offset);
+      gl.uniform1f(this.uAbsorb, 0);
+      gl.uniform1f(this.uPointScale, 1);
+      gl.drawArrays(gl.POINTS, 0, emissive);
+
+      // Dust then removes a fraction of whatever light lies under it
+      const absorbEnd = Math.min(mesh.starCount, mesh.absorbing.offset + mesh.absorbing.count);
+      if (absorbEnd > mesh.absorbing.offset) {
+        gl.blendFunc(gl.ZERO, gl.ONE_MINUS_SRC_ALPHA);
+        gl.uniform1f(this.uAbsorb, 1);
+        gl.uniform1f(this.uPointScale, 2.5);
+        gl.drawArrays(gl.POINTS, mesh.absorbing.offset, absorbEnd - mesh.absorbing.offset);
+        gl.blendFunc(gl.SRC_ALPHA, gl.ONE);
+      }
+    }
 
-    gl.bindVertexArray(this.vao);
-    gl.drawArrays(gl.POINTS, 0, this.starCount);
     gl.bindVertexArray(null);
   }
 
@@ -108,6 +516,15 @@ export class GalaxyRenderer {
     this.render();
   }
 
+  /** Scales the distance by `factor`, keeping the scene point under a client-space point put. */
+  zoomAt(factor: number, clientX: number, clientY: number) {
+    const rect = this.canvas.getBoundingClientRect();
+    const x = rect.width > 0 ? ((clientX - rect.left) / rect.width) * 2 - 1 : 0;
+    const y = rect.height > 0 ? 1 - ((clientY - rect.top) / rect.height) * 2 : 0;
+    this.camera.zoomToward(factor, x, y, rect.width / Math.max(1, rect.height));
+    this.render();
+  }
+
   setAngles(yaw: number, pitch: number) {
     this.camera.setAngles(yaw, pitch);
     this.render();
@@ -117,44 +534,189 @@ export class GalaxyRenderer {
     return this.camera.getAngles();
   }
 
+  getCameraState() {
+    return this.camera.getState();
+  }
+
+  setCameraState(state: CameraState) {
+    this.camera.setState(state);
+    this.render();
+  }
+
+  /** Drags the target across the view; deltas are in CSS pixels. */
+  pan(deltaX: number, deltaY: number) {
+    this.camera.pan(deltaX, deltaY, this.canvas.clientHeight);
+    this.render();
+  }
+
+  /** Free-fly step in world units along the view, across it and up. */
+  fly(forward: number, right: number, up: number) {
+    this.camera.fly(forward, right, up);
+    this.render();
+  }
+
+  /** Turns the view about the eye (fly mode) rather than orbiting the target. */
+  look(deltaYaw: number, deltaPitch: number) {
+    this.camera.look(deltaYaw, deltaPitch);
+    this.render();
+  }
+
+  /** Scales the zoom limits to the scene, which reaches `radius` units from the origin. */
+  setSceneRadius(radius: number) {
+    this.camera.setSceneRadius(radius);
+    this.render();
+  }
+
+  /**
+   * World position of the star drawn under a client-space point, or null when none is close.
+   * The renderer keeps no CPU copy of the stars, so the caller passes each mesh's buffer.
+   */
+  pickStar(clientX: number, clientY: number, sources: { id: string; stars: StarBuffer }[]) {
+    const rect = this.canvas.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
+    const aspect = this.canvas.width / Math.max(1, this.canvas.height);
+    const viewProjection = mat4.multiply(
+      mat4.create(),
+      this.camera.getProjectionMatrix(aspect),
+      this.camera.getViewMatrix()
+    );
+    const meshes = sources.flatMap(({ id, stars }) => {
+      const mesh = this.galaxies.get(id);
+      if (!mesh || !mesh.visible) return [];
+      const rotationTime = mesh.rotates ? this.rotationTime : 0;
+      return [{ stars, rigid: mesh.rigid, model: mesh.model, rotationTime }];
+    });
+    const ray = {
+      viewProjection,
+      x: ((clientX - rect.left) / rect.width) * 2 - 1,
+      y: 1 - ((clientY - rect.top) / rect.height) * 2,
+      radiusX: (pickRadius * 2) / rect.width,
+      radiusY: (pickRadius * 2) / rect.height
+    };
+    return pickStar(meshes, ray, this.rotation);
+  }
+
   dispose() {
+    this.setRotationPlaying(false);
+    this.animators.clear();
+    if (this.frameRequest !== null) cancelAnimationFrame(this.frameRequest);
+    this.frameRequest = null;
+    this.timer.dispose();
+    if (this.screenTargets) this.post.deleteTargets(this.screenTargets);
+    this.screenTargets = null;
+    this.post.dispose();
     const gl = this.gl;
     gl.deleteProgram(this.program);
-    gl.deleteBuffer(this.vbo);
-    gl.deleteVertexArray(this.vao);
+    for (const mesh of this.galaxies.values()) this.deleteMesh(mesh);
+    this.galaxies.clear();
     gl.deleteTexture(this.paletteTex);
+    gl.deleteTexture(this.blackbodyTex);
   }
 
-  private createProgram(vsSource: string, fsSource: string) {
+  /** Packs and writes stars into the bound vertex buffer from star `offset` on, in chunks. */
+  private uploadStars(mesh: GalaxyMesh, data: Float32Array, offset: number) {
     const gl = this.gl;
-    const vs = this.compileShader(gl.VERTEX_SHADER, vsSource);
-    const fs = this.compileShader(gl.FRAGMENT_SHADER, fsSource);
-    const program = gl.createProgram();
-    if (!program) throw new Error("Failed to create program");
-    gl.attachShader(program, vs);
-    gl.attachShader(program, fs);
-    gl.linkProgram(program);
-    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
-      throw new Error(`Program link failed: ${gl.getProgramInfoLog(program)}`);
+    const count = Math.floor(data.length / floatsPerStar);
+    for (let start = 0; start < count; start += uploadChunkStars) {
+      const end = Math.min(count, start + uploadChunkStars);
+      gl.bufferSubData(
+        gl.ARRAY_BUFFER,
+        (offset + start) * bytesPerStar(this.layout),
+        packStars(
+          data.subarray(start * floatsPerStar, end * floatsPerStar),
+          this.layout,
+          offset + start,
+          mesh.rigid
+        )
+      );
     }
-    gl.deleteShader(vs);
-    gl.deleteShader(fs);
-    return program;
   }
 
-  private compileShader(type: number, source: string) {
+  private ensureGalaxy(id: string) {
+    const existing = this.galaxies.get(id);
+    if (existing) return existing;
     const gl = this.gl;
-    const shader = gl.createShader(type);
-    if (!shader) throw new Error("Failed to create shader");
-    gl.shaderSource(shader, source);
-    gl.compileShader(shader);
-    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-      throw new Error(`Shader compile failed: ${gl.getShaderInfoLog(shader)}`);
+    const mesh: GalaxyMesh = {
+      vao: gl.createVertexArray()!,
+      vbo: gl.createBuffer()!,
+      starCount: 0,
+      bufferBytes: 0,
+      absorbing: { offset: 0, count: 0 },
+      rigid: [],
+      colorMode: "palette",
+      paletteTex: null,
+      model: mat4.create(),
+      visible: true,
+      rotates: true
+    };
+    gl.bindVertexArray(mesh.vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, mesh.vbo);
+    configureVertexAttributes(gl, this.layout);
+    gl.bindVertexArray(null);
+    this.galaxies.set(id, mesh);
+    return mesh;
+  }
+
+  /** Draws the scene into the HDR target and post-processes it onto the canvas. */
+  private drawToScreen() {
+    const { width, height } = this.canvas;
+    if (width === 0 || height === 0) return;
+    let targets = this.screenTargets;
+    if (!targets || targets.width !== width || targets.height !== height) {
+      if (targets) this.post.deleteTargets(targets);
+      targets = this.post.createTargets(width, height, bloomLevels(height));
+      this.screenTargets = targets;
     }
-    return shader;
+    this.post.bindScene(targets);
+    const aspect = width / height;
+    this.draw(this.camera.getViewMatrix(), this.camera.getProjectionMatrix(aspect), 1);
+    this.post.apply(targets, this.postSettings, null);
   }
 
-  private createPaletteTexture(palette: Float32Array) {
+  private requestFrame() {
+    if (this.frameRequest !== null) return;
+    // Waking from idle: the first frame's dt should cover one frame, not the idle time
+    this.lastFrameTime = performance.now();
+    this.frameRequest = requestAnimationFrame(this.frame);
+  }
+
+  /**
+   * One turn of the render loop. frameRequest stays set until the draw is issued, so render()
+   * calls from animators or during the frame fold into this draw instead of queuing another.
+   */
+  private frame = (now: number) => {
+    const dt = Math.min(0.1, Math.max(0, now - this.lastFrameTime) / 1000);
+    this.lastFrameTime = now;
+    let active = this.rotationPlaying;
+    if (this.rotationPlaying) this.rotationTime += dt * this.rotation.speed;
+    for (const animator of Array.from(this.animators)) {
+      if (animator(dt, now)) active = true;
+      else this.animators.delete(animator);
+    }
+
+    const started = performance.now();
+    this.timer.begin();
+    this.drawToScreen();
+    this.timer.end();
+    const cpuMs = performance.now() - started;
+    const gpuMs = this.timer.poll();
+    const sample = this.timer.available ? gpuMs : cpuMs;
+    if (sample !== null) {
+      this.frameMs = this.frameMs > 0 ? this.frameMs + (sample - this.frameMs) * 0.1 : sample;
+    }
+    this.frameTimes.push(now);
+    while (this.frameTimes.length > 0 && this.frameTimes[0] <= now - 1000) this.frameTimes.shift();
+
+    this.frameRequest = active ? requestAnimationFrame(this.frame) : null;
+  };
+
+  private deleteMesh(mesh: GalaxyMesh) {
+    this.gl.deleteBuffer(mesh.vbo);
+    this.gl.deleteVertexArray(mesh.vao);
+    if (mesh.paletteTex) this.gl.deleteTexture(mesh.paletteTex);
+  }
+
+  private createPaletteTexture(palette: Palette) {
     const gl = this.gl;
     const tex = gl.createTexture();
     if (!tex) throw new Error("Failed to create texture");
@@ -163,6 +725,14 @@ export class GalaxyRenderer {
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    this.uploadPalette(tex, palette);
+    return tex;
+  }
+
+  private uploadPalette(tex: WebGLTexture, palette: Palette) {
+    const gl = this.gl;
+    gl.bindTexture(gl.TEXTURE_2D, tex);
     // Store palette as a 1xN strip
     gl.texImage2D(
       gl.TEXTURE_2D,
@@ -176,34 +746,5 @@ export class GalaxyRenderer {
       palette
     );
     gl.bindTexture(gl.TEXTURE_2D, null);
-    return tex;
   }
 }
-
-function buildPalette() {
-  const palette = new Float32Array(256 * 3);
-  const core = [1.0, 0.95, 0.9];
-  const mid = [0.85, 0.9, 1.0];
-  const outer = [0.45, 0.6, 1.0];
-
-  for (let i = 0; i < 256; i++) {
-    const t = i / 255;
-    const midT = clamp((t - 0.2) / 0.3, 0, 1);
-    const outerT = clamp((t - 0.5) / 0.5, 0, 1);
-    const warmToMid = lerp3(core, mid, midT);
-    const col = lerp3(warmToMid, outer, outerT);
-    palette[i * 3 + 0] = col[0];
-    palette[i * 3 + 1] = col[1];
-    palette[i * 3 + 2] = col[2];
-  }
-
-  return palette;
-}
-
-function lerp3(a: number[], b: number[], t: number): number[] {
-  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
-}
-
-function clamp(v: number, min: number, max: number) {
-  return Math.min(Math.max(v, min), max);
-}
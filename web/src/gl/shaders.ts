@@ -2,22 +2,56 @@ export const vertexSource = `#version 300 es
 layout(location = 0) in vec3 in_position;
 layout(location = 1) in float in_intensity;
 layout(location = 2) in float in_colorIndex;
+layout(location = 3) in float in_type;
+layout(location = 4) in float in_radius;
+// fraction of a turn, measured from +x toward +z in the disk plane
+layout(location = 5) in float in_phase;
 
 uniform mat4 uModel;
 uniform mat4 uView;
 uniform mat4 uProjection;
+// 0 for float intensities; otherwise the compact layout's sqrt-encoded byte scale
+uniform float uPackedIntensity;
+uniform float uPointScale;
+// Output height over the on-screen canvas height, so offscreen renders keep the on-screen look
+uniform float uPixelScale;
+// Animated rotation: seconds of rotation so far (0 draws the stars as generated) and the curve,
+// 0 solid body, 1 solid core + flat, 2 solid core + Keplerian
+uniform float uTime;
+uniform int uCurve;
+uniform float uCoreRadius;
+uniform float uVelocity;
 
 out float vIntensity;
 out float vColorIndex;
+flat out int vType;
+
+float angularVelocity(float r) {
+  float core = max(uCoreRadius, 0.001);
+  if (uCurve == 0 || r < core) return uVelocity / core;
+  if (uCurve == 1) return uVelocity / r;
+  return uVelocity * sqrt(core / r) / r;
+}
 
 void main() {
-  vec4 world = uModel * vec4(in_position, 1.0);
+  vec3 position = in_position;
+  // in_radius is the radius whose angular velocity the particle turns at: its own for disk
+  // stars, the bar end for the whole bar, negative for particles off the disk plane
+  if (uTime != 0.0 && in_radius >= 0.0) {
+    // Stars orbit toward decreasing phase, the sense that makes the generated arms trail.
+    float angle = in_phase * 6.2831853 - angularVelocity(in_radius) * uTime;
+    position.xz = length(in_position.xz) * vec2(cos(angle), sin(angle));
+  }
+  vec4 world = uModel * vec4(position, 1.0);
   vec4 viewPos = uView * world;
   float dist = max(length(viewPos.xyz), 0.01);
   gl_Position = uProjection * viewPos;
+  vType = int(in_type + 0.5);
   float size = 8.0 / dist;
-  gl_PointSize = clamp(size, 1.5, 12.0);
-  vIntensity = in_intensity;
+  // Nebula knots are soft glows, larger than a star point
+  float typeScale = vType == 1 ? 2.2 : 1.0;
+  gl_PointSize = clamp(size, 1.5, 12.0) * uPointScale * typeScale * uPixelScale;
+  vIntensity = uPackedIntensity > 0.0 ? in_intensity * in_intensity * uPackedIntensity : in_intensity;
   vColorIndex = clamp(in_colorIndex, 0.0, 1.0);
 }
 `;
@@ -26,7 +60,10 @@ export const fragmentSource = `#version 300 es
 precision highp float;
 in float vIntensity;
 in float vColorIndex;
+flat in int vType;
 uniform sampler2D uPalette;
+// 1 for the dust pass: output opacity only, blended as dst * (1 - alpha)
+uniform float uAbsorb;
 out vec4 fragColor;
 
 void main() {
@@ -34,7 +71,128 @@ void main() {
   float d = dot(centered, centered);
   float falloff = clamp(1.0 - smoothstep(0.0, 1.0, d), 0.0, 1.0);
   float alpha = falloff;
+  if (uAbsorb > 0.5) {
+    fragColor = vec4(0.0, 0.0, 0.0, clamp(falloff * vIntensity, 0.0, 1.0));
+    return;
+  }
+  if (vType == 1) {
+    // Emission knot: H-alpha pink to OIII teal, with a softer exponential glow
+    vec3 hAlpha = vec3(1.0, 0.32, 0.55);
+    vec3 oiii = vec3(0.28, 0.95, 0.85);
+    float glow = exp(-d * 3.5) * falloff;
+    fragColor = vec4(mix(hAlpha, oiii, vColorIndex) * vIntensity, glow);
+    return;
+  }
   vec3 color = texture(uPalette, vec2(vColorIndex, 0.5)).rgb * vIntensity;
   fragColor = vec4(color, alpha);
 }
 `;
+
+// Post-processing passes draw one triangle that covers the viewport; it needs no vertex buffer.
+export const postVertexSource = `#version 300 es
+out vec2 vUv;
+
+void main() {
+  vec2 corner = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  vUv = corner;
+  gl_Position = vec4(corner * 2.0 - 1.0, 0.0, 1.0);
+}
+`;
+
+// Halves the resolution with a 5-tap box: the bilinear taps one texel off each diagonal cover
+// a 4x4 block. The first pass also keeps only light above the bloom threshold.
+export const bloomDownSource = `#version 300 es
+precision highp float;
+in vec2 vUv;
+uniform sampler2D uSource;
+uniform vec2 uTexel;
+// 1 on the first pass: apply the threshold with a soft knee
+uniform int uPrefilter;
+uniform float uThreshold;
+uniform float uKnee;
+out vec4 fragColor;
+
+vec3 prefilter(vec3 color) {
+  float brightness = max(color.r, max(color.g, color.b));
+  float soft = clamp(brightness - uThreshold + uKnee, 0.0, 2.0 * uKnee);
+  soft = soft * soft / (4.0 * uKnee + 1e-4);
+  return color * max(soft, brightness - uThreshold) / max(brightness, 1e-4);
+}
+
+void main() {
+  vec3 sum = texture(uSource, vUv).rgb * 4.0;
+  sum += texture(uSource, vUv + vec2(-1.0, -1.0) * uTexel).rgb;
+  sum += texture(uSource, vUv + vec2(1.0, -1.0) * uTexel).rgb;
+  sum += texture(uSource, vUv + vec2(-1.0, 1.0) * uTexel).rgb;
+  sum += texture(uSource, vUv + vec2(1.0, 1.0) * uTexel).rgb;
+  vec3 color = sum / 8.0;
+  fragColor = vec4(uPrefilter == 1 ? prefilter(color) : color, 1.0);
+}
+`;
+
+// Doubles the resolution with a 3x3 tent filter; blending mixes it into the finer level.
+export const bloomUpSource = `#version 300 es
+precision highp float;
+in vec2 vUv;
+uniform sampler2D uSource;
+uniform vec2 uTexel;
+out vec4 fragColor;
+
+void main() {
+  vec3 sum = texture(uSource, vUv).rgb * 4.0;
+  sum += (texture(uSource, vUv + vec2(-1.0, 0.0) * uTexel).rgb +
+          texture(uSource, vUv + vec2(1.0, 0.0) * uTexel).rgb +
+          texture(uSource, vUv + vec2(0.0, -1.0) * uTexel).rgb +
+          texture(uSource, vUv + vec2(0.0, 1.0) * uTexel).rgb) * 2.0;
+  sum += texture(uSource, vUv + vec2(-1.0, -1.0) * uTexel).rgb;
+  sum += texture(uSource, vUv + vec2(1.0, -1.0) * uTexel).rgb;
+  sum += texture(uSource, vUv + vec2(-1.0, 1.0) * uTexel).rgb;
+  sum += texture(uSource, vUv + vec2(1.0, 1.0) * uTexel).rgb;
+  fragColor = vec4(sum / 16.0, 1.0);
+}
+`;
+
+// Adds the bloom, applies exposure and maps the HDR scene into display range. The palettes
+// are authored as display values, so the operators work on those directly.
+export const compositeSource = `#version 300 es
+precision highp float;
+in vec2 vUv;
+uniform sampler2D uScene;
+uniform sampler2D uBloom;
+uniform float uBloomIntensity;
+// linear multiplier, 2^EV
+uniform float uExposure;
+// 0 clip, 1 Reinhard, 2 ACES, 3 filmic
+uniform int uToneMapping;
+out vec4 fragColor;
+
+vec3 reinhard(vec3 color) {
+  float luminance = dot(color, vec3(0.2126, 0.7152, 0.0722));
+  return color / (1.0 + luminance);
+}
+
+// Narkowicz's fit of the ACES reference rendering transform
+vec3 aces(vec3 x) {
+  return (x * (2.51 * x + 0.03)) / (x * (2.43 * x + 0.59) + 0.14);
+}
+
+// Hable's Uncharted 2 curve, normalized to a white point of 11.2
+vec3 hable(vec3 x) {
+  const float A = 0.15, B = 0.50, C = 0.10, D = 0.20, E = 0.02, F = 0.30;
+  return (x * (A * x + C * B) + D * E) / (x * (A * x + B) + D * F) - E / F;
+}
+
+vec3 filmic(vec3 color) {
+  return hable(color * 2.0) / hable(vec3(11.2));
+}
+
+void main() {
+  vec3 color = texture(uScene, vUv).rgb;
+  if (uBloomIntensity > 0.0) color += texture(uBloom, vUv).rgb * uBloomIntensity;
+  color *= uExposure;
+  if (uToneMapping == 1) color = reinhard(color);
+  else if (uToneMapping == 2) color = aces(color);
+  else if (uToneMapping == 3) color = filmic(color);
+  fragColor = vec4(clamp(color, 0.0, 1.0), 1.0);
+}
+`;
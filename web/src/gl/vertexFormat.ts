@@ -0,0 +1,146 @@
+import { RigidRange } from "@domain/generator";
+import { floatsPerStar, VertexLayout } from "@domain/parameters";
+
+/** Intensity that maps to 255 in the compact layout (after the sqrt encoding). */
+export const maxPackedIntensity = 8;
+
+/** Orbital radius and phase appended to every vertex for the animated rotation. */
+const orbitFloats = 2;
+
+/** Orbital radius written for stars the animated rotation leaves in place. */
+const fixedRadius = -1;
+
+/** Most stars to pack per upload, which bounds the scratch buffer packStars reuses. */
+export const uploadChunkStars = 65536;
+
+let scratch = new ArrayBuffer(0);
+
+function scratchBuffer(bytes: number) {
+  if (scratch.byteLength < bytes) scratch = new ArrayBuffer(bytes);
+  return scratch;
+}
+
+export function bytesPerStar(layout: VertexLayout) {
+  return layout === "compact" ? 14 : (floatsPerStar + orbitFloats) * 4;
+}
+
+/** Points attributes 0-5 of the currently bound VAO at the bound ARRAY_BUFFER. */
+export function configureVertexAttributes(gl: WebGL2RenderingContext, layout: VertexLayout) {
+  const stride = bytesPerStar(layout);
+  for (let location = 0; location <= 5; location++) gl.enableVertexAttribArray(location);
+
+  if (layout === "compact") {
+    gl.vertexAttribPointer(0, 3, gl.HALF_FLOAT, false, stride, 0);
+    gl.vertexAttribPointer(1, 1, gl.UNSIGNED_BYTE, true, stride, 6);
+    gl.vertexAttribPointer(2, 1, gl.UNSIGNED_BYTE, true, stride, 7);
+    gl.vertexAttribPointer(3, 1, gl.UNSIGNED_BYTE, false, stride, 8);
+    gl.vertexAttribPointer(4, 1, gl.HALF_FLOAT, false, stride, 10);
+    gl.vertexAttribPointer(5, 1, gl.UNSIGNED_SHORT, true, stride, 12);
+    return;
+  }
+
+  gl.vertexAttribPointer(0, 3, gl.FLOAT, false, stride, 0);
+  gl.vertexAttribPointer(1, 1, gl.FLOAT, false, stride, 3 * 4);
+  gl.vertexAttribPointer(2, 1, gl.FLOAT, false, stride, 4 * 4);
+  gl.vertexAttribPointer(3, 1, gl.FLOAT, false, stride, 5 * 4);
+  gl.vertexAttribPointer(4, 1, gl.FLOAT, false, stride, 6 * 4);
+  gl.vertexAttribPointer(5, 1, gl.FLOAT, false, stride, 7 * 4);
+}
+
+/**
+ * Converts StarBuffer floats to the bytes uploaded for the given layout, adding the radius
+ * whose angular velocity each star turns at and its phase (as a fraction of a turn) in the
+ * galaxy's disk plane. `offset` is the index of the first star in the whole buffer; stars
+ * inside `rigid` get their range's pattern radius, or a negative radius, which the vertex
+ * shader reads as "does not orbit". The result views a scratch buffer shared by every call, so
+ * it must be uploaded before packing again; pack at most uploadChunkStars stars at a time.
+ */
+export function packStars(
+  data: Float32Array,
+  layout: VertexLayout,
+  offset = 0,
+  rigid: RigidRange[] = []
+): ArrayBufferView {
+  const count = Math.floor(data.length / floatsPerStar);
+  const orbitRadius = (i: number, src: number) => {
+    const index = offset + i;
+    const range = rigid.find((r) => index >= r.offset && index < r.offset + r.count);
+    if (!range) return Math.hypot(data[src], data[src + 2]);
+    return range.patternRadius ?? fixedRadius;
+  };
+
+  if (layout === "float32") {
+    const stride = floatsPerStar + orbitFloats;
+    const out = new Float32Array(scratchBuffer(count * stride * 4), 0, count * stride);
+    for (let i = 0; i < count; i++) {
+      const src = i * floatsPerStar;
+      out.set(data.subarray(src, src + floatsPerStar), i * stride);
+      out[i * stride + 6] = orbitRadius(i, src);
+      out[i * stride + 7] = phase01(data[src], data[src + 2]);
+    }
+    return out;
+  }
+
+  const stride = bytesPerStar("compact");
+  const buffer = scratchBuffer(count * stride);
+  const halves = new Uint16Array(buffer, 0, (count * stride) / 2);
+  const bytes = new Uint8Array(buffer, 0, count * stride);
+
+  for (let i = 0; i < count; i++) {
+    const src = i * floatsPerStar;
+    const h = (i * stride) / 2;
+    halves[h] = toHalfFloat(data[src]);
+    halves[h + 1] = toHalfFloat(data[src + 1]);
+    halves[h + 2] = toHalfFloat(data[src + 2]);
+    const intensity = Math.sqrt(Math.max(0, data[src + 3]) / maxPackedIntensity);
+    bytes[i * stride + 6] = toUnorm8(intensity);
+    bytes[i * stride + 7] = toUnorm8(data[src + 4]);
+    bytes[i * stride + 8] = data[src + 5];
+    halves[h + 5] = toHalfFloat(orbitRadius(i, src));
+    halves[h + 6] = Math.round(phase01(data[src], data[src + 2]) * 65535);
+  }
+
+  return bytes;
+}
+
+/** Angle of (x, z) from +x toward +z, as a fraction of a turn in [0, 1). */
+function phase01(x: number, z: number) {
+  const turn = Math.atan2(z, x) / (2 * Math.PI);
+  return turn < 0 ? turn + 1 : turn;
+}
+
+const floatView = new Float32Array(1);
+const bitsView = new Uint32Array(floatView.buffer);
+
+/** IEEE 754 binary16 bits for a number, rounded to nearest. */
+export function toHalfFloat(value: number) {
+  floatView[0] = value;
+  const bits = bitsView[0];
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = (bits >>> 23) & 0xff;
+  let mantissa = bits & 0x7fffff;
+
+  if (exponent === 0xff) return sign | 0x7c00 | (mantissa ? 0x200 : 0);
+
+  const halfExponent = exponent - 127 + 15;
+  if (halfExponent >= 0x1f) return sign | 0x7c00;
+
+  if (halfExponent <= 0) {
+    // Subnormal half (or zero)
+    if (halfExponent < -10) return sign;
+    mantissa |= 0x800000;
+    const shift = 14 - halfExponent;
+    let half = mantissa >>> shift;
+    if ((mantissa >>> (shift - 1)) & 1) half += 1;
+    return sign | half;
+  }
+
+  let half = sign | (halfExponent << 10) | (mantissa >>> 13);
+  // Round to nearest; a carry correctly bumps the exponent.
+  if (mantissa & 0x1000) half += 1;
+  return half;
+}
+
+function toUnorm8(value: number) {
+  return Math.round(Math.min(Math.max(value, 0), 1) * 255);
+}